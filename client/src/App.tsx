@@ -5,11 +5,19 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import DashPlatformStats from "@/pages/dash-platform-stats";
+import Governance from "@/pages/governance";
+import MasternodeLookup from "@/pages/masternode";
+import AdminLogin from "@/pages/admin-login";
+import AdminConsole from "@/pages/admin";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={DashPlatformStats} />
+      <Route path="/governance" component={Governance} />
+      <Route path="/masternode" component={MasternodeLookup} />
+      <Route path="/admin" component={AdminConsole} />
+      <Route path="/admin/login" component={AdminLogin} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,54 @@
+export function formatDash(amount: number) {
+  const abs = Math.abs(amount);
+  if (abs >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M DASH`;
+  if (abs >= 10_000) return `${(amount / 1_000).toFixed(1)}k DASH`;
+  if (abs >= 1_000) return `${(amount / 1_000).toFixed(2)}k DASH`;
+  if (abs >= 10) return `${amount.toFixed(2)} DASH`;
+  if (abs >= 1) return `${amount.toFixed(4)} DASH`;
+  if (abs >= 0.001) return `${amount.toFixed(5)} DASH`;
+  return `${amount.toFixed(8)} DASH`;
+}
+
+const QUOTE_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  BRL: "R$",
+  ARS: "AR$",
+  MXN: "MX$",
+  COP: "COL$",
+  BTC: "₿",
+};
+
+export function formatUsd(amount: number) {
+  return formatQuote(amount, "USD");
+}
+
+export function quoteSymbol(currency: string) {
+  return QUOTE_SYMBOLS[currency] ?? `${currency} `;
+}
+
+export function formatQuote(amount: number, currency: string) {
+  const symbol = quoteSymbol(currency);
+  if (currency === "BTC") {
+    if (amount >= 1) return `${symbol}${amount.toFixed(4)}`;
+    return `${symbol}${amount.toFixed(8)}`;
+  }
+  if (amount >= 1_000_000) return `${symbol}${(amount / 1_000_000).toFixed(2)}M`;
+  if (amount >= 10_000) return `${symbol}${(amount / 1_000).toFixed(1)}k`;
+  if (amount >= 1_000) return `${symbol}${amount.toFixed(0)}`;
+  if (amount >= 1) return `${symbol}${amount.toFixed(2)}`;
+  if (amount >= 0.01) return `${symbol}${amount.toFixed(4)}`;
+  return `${symbol}${amount.toFixed(6)}`;
+}
+
+export function formatDashCompact(amount: number) {
+  const abs = Math.abs(amount);
+  if (abs >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M`;
+  if (abs >= 10_000) return `${(amount / 1_000).toFixed(1)}k`;
+  if (abs >= 1_000) return `${(amount / 1_000).toFixed(2)}k`;
+  if (abs >= 10) return amount.toFixed(2);
+  if (abs >= 1) return amount.toFixed(3);
+  if (abs >= 0.001) return amount.toFixed(5);
+  return amount.toFixed(8);
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import dashLogo from "@assets/dash_logo_2018_rgb_for_screens_1770933767158.png";
+import { ArrowLeft, LogIn, LogOut, RefreshCcw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+interface SessionUser {
+  id: string;
+  username: string;
+  role: "viewer" | "admin";
+}
+
+export default function AdminLogin() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/me", { credentials: "include" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setChecking(false));
+  }, []);
+
+  const login = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ username, password }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setUser(json);
+      setPassword("");
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
+    setUser(null);
+  };
+
+  return (
+    <div className="min-h-dvh grid-glow">
+      <header className="mx-auto w-full max-w-[90rem] px-4 pb-5 pt-10 sm:px-6 sm:pb-7 sm:pt-14 lg:px-10">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <h1 className="flex items-center gap-3 font-serif text-3xl font-light leading-[1.05] tracking-tight sm:text-5xl" data-testid="text-title">
+            <img src={dashLogo} alt="Dash" className="h-8 w-auto sm:h-11" />
+            <span className="text-gradient">Admin</span>
+          </h1>
+          <Link href="/" data-testid="link-dashboard">
+            <Button
+              variant="secondary"
+              className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-md px-4 pb-16 sm:px-6">
+        <Card className="glass noise rounded-3xl border-white/10 bg-transparent p-6" data-testid="card-login">
+          {checking ? (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <RefreshCcw className="mr-2 h-4 w-4 animate-spin" />
+              Checking session…
+            </p>
+          ) : user ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Signed in as <span className="font-mono text-foreground/90" data-testid="text-username">{user.username}</span>
+              </p>
+              <Badge
+                variant="secondary"
+                className={
+                  "rounded-full border " +
+                  (user.role === "admin" ? "border-white/10 bg-white/5" : "border-amber-400/30 bg-amber-400/10 text-amber-200")
+                }
+                data-testid="badge-role"
+              >
+                {user.role === "admin" ? "Admin" : "Viewer — admin actions are not available"}
+              </Badge>
+              {user.role === "admin" && (
+                <Link href="/admin" data-testid="link-admin-console">
+                  <Button className="h-10 w-full rounded-full">Open admin console</Button>
+                </Link>
+              )}
+              <Button
+                variant="secondary"
+                className="h-10 w-full rounded-full border border-white/10 bg-white/5"
+                onClick={logout}
+                data-testid="button-logout"
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign out
+              </Button>
+            </div>
+          ) : (
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                login();
+              }}
+            >
+              <Input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username"
+                autoComplete="username"
+                className="h-10 rounded-full border-white/10 bg-white/5"
+                data-testid="input-username"
+              />
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete="current-password"
+                className="h-10 rounded-full border-white/10 bg-white/5"
+                data-testid="input-password"
+              />
+              {error && (
+                <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300" data-testid="text-error">
+                  {error}
+                </div>
+              )}
+              <Button
+                type="submit"
+                variant="secondary"
+                className="h-10 w-full rounded-full border border-white/10 bg-white/5"
+                disabled={submitting || !username || !password}
+                data-testid="button-login"
+              >
+                {submitting ? <RefreshCcw className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                Sign in
+              </Button>
+            </form>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
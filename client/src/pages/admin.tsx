@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "wouter";
+import dashLogo from "@assets/dash_logo_2018_rgb_for_screens_1770933767158.png";
+import { ArrowLeft, Ban, Pause, Play, RefreshCcw } from "lucide-react";
+import { formatDistanceToNowStrict } from "date-fns";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+
+interface BackfillState {
+  startHeight: number;
+  totalNeeded: number;
+  totalDone: number;
+  oldestHeight: number;
+  targetHeight: number;
+  status: "idle" | "running" | "paused" | "cancelled" | "complete" | "error";
+  updatedAt: number;
+  running: boolean;
+  stopRequested: "paused" | "cancelled" | null;
+}
+
+interface JobLogEntry {
+  id: number;
+  time: number;
+  job: string;
+  level: "info" | "error";
+  message: string;
+}
+
+const POLL_MS = 5000;
+
+async function adminRequest<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const err: any = new Error(json.error || `HTTP ${res.status}`);
+    err.status = res.status;
+    throw err;
+  }
+  return json;
+}
+
+function Panel({ title, description, children, testId }: { title: string; description: string; children: React.ReactNode; testId: string }) {
+  return (
+    <Card className="glass noise rounded-3xl border-white/10 bg-transparent p-5 sm:p-6" data-testid={testId}>
+      <h2 className="font-serif text-lg tracking-tight sm:text-xl">{title}</h2>
+      <p className="mt-1 text-sm text-muted-foreground">{description}</p>
+      <div className="mt-4">{children}</div>
+    </Card>
+  );
+}
+
+export default function AdminConsole() {
+  const [backfill, setBackfill] = useState<BackfillState | null>(null);
+  const [jobLog, setJobLog] = useState<JobLogEntry[]>([]);
+  const [unauthorized, setUnauthorized] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [target, setTarget] = useState("");
+  const [fromEpoch, setFromEpoch] = useState("");
+  const [toEpoch, setToEpoch] = useState("");
+
+  const refresh = useCallback(async () => {
+    try {
+      const [state, entries] = await Promise.all([
+        adminRequest<BackfillState>("GET", "/api/admin/backfill"),
+        adminRequest<JobLogEntry[]>("GET", "/api/admin/log?limit=100"),
+      ]);
+      setBackfill(state);
+      setJobLog(entries);
+      setUnauthorized(false);
+    } catch (err: any) {
+      if (err.status === 401 || err.status === 403) setUnauthorized(true);
+      else setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const id = setInterval(refresh, POLL_MS);
+    return () => clearInterval(id);
+  }, [refresh]);
+
+  const run = async (method: string, url: string, body?: unknown) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await adminRequest(method, url, body);
+      await refresh();
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pct = backfill && backfill.totalNeeded > 0 ? Math.min(100, (backfill.totalDone / backfill.totalNeeded) * 100) : 0;
+
+  return (
+    <div className="min-h-dvh grid-glow">
+      <header className="mx-auto w-full max-w-[90rem] px-4 pb-5 pt-10 sm:px-6 sm:pb-7 sm:pt-14 lg:px-10">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="flex items-center gap-3 font-serif text-3xl font-light leading-[1.05] tracking-tight sm:text-5xl" data-testid="text-title">
+              <img src={dashLogo} alt="Dash" className="h-8 w-auto sm:h-11" />
+              <span className="text-gradient">Admin Console</span>
+            </h1>
+            <p className="mt-3 max-w-2xl text-sm text-muted-foreground sm:text-base">
+              Control the core backfill, resync platform epochs and review what the sync jobs have done.
+            </p>
+          </div>
+          <Link href="/" data-testid="link-dashboard">
+            <Button
+              variant="secondary"
+              className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300" data-testid="text-error">
+            {error}
+          </div>
+        )}
+      </header>
+
+      <main className="mx-auto w-full max-w-[90rem] px-4 pb-16 sm:px-6 lg:px-10">
+        {unauthorized ? (
+          <Card className="glass noise rounded-3xl border-white/10 bg-transparent p-6" data-testid="card-unauthorized">
+            <p className="text-sm text-muted-foreground">
+              The admin console needs an admin account.{" "}
+              <Link href="/admin/login" className="text-foreground underline underline-offset-4" data-testid="link-login">
+                Sign in
+              </Link>
+            </p>
+          </Card>
+        ) : (
+          <div className="grid gap-5 lg:grid-cols-2">
+            <Panel title="Core Backfill" description="Fetches older core blocks down to the target height" testId="card-backfill">
+              {backfill ? (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge
+                      variant="secondary"
+                      className={
+                        "rounded-full border " +
+                        (backfill.status === "error"
+                          ? "border-red-400/30 bg-red-400/10 text-red-200"
+                          : "border-white/10 bg-white/5")
+                      }
+                      data-testid="badge-backfill-status"
+                    >
+                      {backfill.stopRequested ? `${backfill.stopRequested === "paused" ? "Pausing" : "Cancelling"}…` : backfill.status}
+                    </Badge>
+                    <span className="font-mono text-xs text-muted-foreground" data-testid="text-backfill-heights">
+                      #{backfill.oldestHeight.toLocaleString()} → #{backfill.targetHeight.toLocaleString()}
+                    </span>
+                    {backfill.updatedAt > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        saved {formatDistanceToNowStrict(backfill.updatedAt)} ago
+                      </span>
+                    )}
+                  </div>
+                  <Progress value={pct} className="h-2" data-testid="progress-backfill" />
+                  <p className="text-xs text-muted-foreground">
+                    {backfill.totalDone.toLocaleString()} of {backfill.totalNeeded.toLocaleString()} blocks ({pct.toFixed(1)}%)
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="secondary"
+                      className="h-9 rounded-full border border-white/10 bg-white/5"
+                      disabled={busy || backfill.running}
+                      onClick={() => run("POST", "/api/admin/backfill/start")}
+                      data-testid="button-backfill-start"
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      {backfill.status === "paused" ? "Resume" : "Start"}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="h-9 rounded-full border border-white/10 bg-white/5"
+                      disabled={busy || !backfill.running}
+                      onClick={() => run("POST", "/api/admin/backfill/pause")}
+                      data-testid="button-backfill-pause"
+                    >
+                      <Pause className="mr-2 h-4 w-4" />
+                      Pause
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="h-9 rounded-full border border-white/10 bg-white/5"
+                      disabled={busy || backfill.status === "cancelled" || backfill.status === "complete"}
+                      onClick={() => run("POST", "/api/admin/backfill/cancel")}
+                      data-testid="button-backfill-cancel"
+                    >
+                      <Ban className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  </div>
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      run("PUT", "/api/admin/backfill/target", { height: Number(target) }).then((ok) => ok && setTarget(""));
+                    }}
+                  >
+                    <Input
+                      value={target}
+                      onChange={(e) => setTarget(e.target.value.replace(/\D/g, ""))}
+                      placeholder={`Target height (now ${backfill.targetHeight.toLocaleString()})`}
+                      inputMode="numeric"
+                      className="h-9 rounded-full border-white/10 bg-white/5 font-mono text-sm"
+                      data-testid="input-backfill-target"
+                    />
+                    <Button
+                      type="submit"
+                      variant="secondary"
+                      className="h-9 rounded-full border border-white/10 bg-white/5"
+                      disabled={busy || !target}
+                      data-testid="button-backfill-target"
+                    >
+                      Retarget
+                    </Button>
+                  </form>
+                </div>
+              ) : (
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <RefreshCcw className="mr-2 h-4 w-4 animate-spin" />
+                  Loading…
+                </p>
+              )}
+            </Panel>
+
+            <Panel title="Platform Epoch Resync" description="Refetches a range of epochs from Platform Explorer and overwrites the cached fees" testId="card-resync">
+              <form
+                className="flex flex-wrap gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  run("POST", "/api/admin/platform/resync", { fromEpoch: Number(fromEpoch), toEpoch: Number(toEpoch) });
+                }}
+              >
+                <Input
+                  value={fromEpoch}
+                  onChange={(e) => setFromEpoch(e.target.value.replace(/\D/g, ""))}
+                  placeholder="From epoch"
+                  inputMode="numeric"
+                  className="h-9 w-36 rounded-full border-white/10 bg-white/5 font-mono text-sm"
+                  data-testid="input-resync-from"
+                />
+                <Input
+                  value={toEpoch}
+                  onChange={(e) => setToEpoch(e.target.value.replace(/\D/g, ""))}
+                  placeholder="To epoch"
+                  inputMode="numeric"
+                  className="h-9 w-36 rounded-full border-white/10 bg-white/5 font-mono text-sm"
+                  data-testid="input-resync-to"
+                />
+                <Button
+                  type="submit"
+                  variant="secondary"
+                  className="h-9 rounded-full border border-white/10 bg-white/5"
+                  disabled={busy || !fromEpoch || !toEpoch}
+                  data-testid="button-resync"
+                >
+                  <RefreshCcw className="mr-2 h-4 w-4" />
+                  Resync
+                </Button>
+              </form>
+            </Panel>
+
+            <div className="lg:col-span-2">
+              <Panel title="Job Log" description="Most recent events from the backfill and resync jobs" testId="card-job-log">
+                {jobLog.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing logged yet.</p>
+                ) : (
+                  <div className="max-h-[420px] overflow-y-auto">
+                    <table className="w-full text-left text-sm" data-testid="table-job-log">
+                      <tbody>
+                        {jobLog.map((entry) => (
+                          <tr key={entry.id} className="border-t border-white/5 align-top">
+                            <td className="whitespace-nowrap py-2 pr-4 font-mono text-xs text-muted-foreground">
+                              {new Date(entry.time).toLocaleString()}
+                            </td>
+                            <td className="whitespace-nowrap py-2 pr-4 font-mono text-xs">{entry.job}</td>
+                            <td className={"py-2 " + (entry.level === "error" ? "text-red-300" : "text-foreground/90")}>
+                              {entry.message}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </Panel>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import dogeImage from "@assets/Remove_background_doge2_1770963210773.png";
 import {
   Area,
   AreaChart,
+  Bar,
+  BarChart,
   CartesianGrid,
   Line,
   ComposedChart,
@@ -16,20 +18,31 @@ import {
 } from "recharts";
 import {
   Activity,
+  CalendarDays,
   ChevronDown,
+  Landmark,
   CircleDot,
   Coins,
   DatabaseZap,
+  Download,
   RefreshCcw,
   ToggleLeft,
   ToggleRight,
   ExternalLink,
+  Network,
+  Search,
+  Vote,
 } from "lucide-react";
-import { formatDistanceToNowStrict } from "date-fns";
+import { endOfDay, format, formatDistanceToNowStrict, isValid, parse, startOfDay } from "date-fns";
+import { Link } from "wouter";
+import type { DateRange } from "react-day-picker";
 
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,8 +50,24 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
+import { formatDash, formatDashCompact, formatQuote, quoteSymbol } from "@/lib/format";
+import { startOfZonedBucket } from "@shared/timezone";
+import type { CoreTxType } from "@shared/schema";
 
 type RangeKey = "day" | "week" | "month" | "year";
+type BucketUnit = "hour" | "day" | "month";
+type Valuation = "now" | "at-time";
+
+// Whole calendar days, both ends inclusive
+interface DateWindow {
+  from: Date;
+  to: Date;
+}
+
+interface QuoteCurrencyOption {
+  code: string;
+  dashPrice: number | null;
+}
 
 interface SankeyData {
   monthlyMinedCoins: number;
@@ -54,6 +83,10 @@ interface SankeyData {
   toEvoFromRewards: number;
   toEvoTotal: number;
   dashPriceUsd: number;
+  spotPriceUsd: number;
+  currency: string;
+  dashPrice: number;
+  valuation: Valuation;
   currentHeight: number;
   subsidy: number;
   regularMasternodes: number;
@@ -74,17 +107,33 @@ interface DashboardData {
     payoutPerMasternode: number;
     payoutPerEvo: number;
   };
+  totalsQuote: {
+    totalCoreFees: number;
+    totalCoreRewards: number;
+    totalPlatformFeesDash: number;
+    totalCreditsOnPlatformDash: number;
+    payoutPerMasternode: number;
+    payoutPerEvo: number;
+  };
+  valuation: Valuation;
+  currency: string;
+  dashPrice: number;
   coreFeeSeries: Array<{
     t: number;
     fees: number;
     reward: number;
+    feesQuote: number;
+    rewardQuote: number;
     height: number;
     txCount: number;
     blockCount?: number;
+    masternodes?: number;
+    evoNodes?: number;
   }>;
   platformFeeSeries: Array<{
     t: number;
     fees: number;
+    feesQuote: number;
     epochNumber: number;
   }>;
   platformGasSeries: Array<{
@@ -92,6 +141,13 @@ interface DashboardData {
     gas: number;
     blockHeight: number;
   }>;
+  nodeCountSeries: Array<{
+    t: number;
+    masternodes: number;
+    evoNodes: number;
+    poseBanned: number;
+    evoPoseBanned: number;
+  }>;
   platformStatus: {
     epoch: {
       number: number;
@@ -111,10 +167,186 @@ interface DashboardData {
     tenderdashHeight: number;
   } | null;
   coreHeight: number;
+  coreCoverage: {
+    expectedBlocks: number;
+    cachedBlocks: number;
+    missingBlocks: number;
+    percent: number;
+  };
   dashPriceUsd: number;
-  range: string;
+  backfillProgress: BackfillProgress;
+  range: string | null;
+  window: {
+    from: number;
+    to: number | null;
+    bucket: BucketUnit;
+    tz: string;
+  };
+  comparison: {
+    window: { from: number; to: number };
+    offsetMs: number;
+    totals: Partial<DashboardData["totals"]>;
+    totalsQuote: Partial<DashboardData["totalsQuote"]>;
+    deltas: Record<keyof DashboardData["totals"], number | null>;
+    deltasQuote: Partial<Record<keyof DashboardData["totalsQuote"], number | null>>;
+    coreFeeSeries: DashboardData["coreFeeSeries"];
+    platformFeeSeries: DashboardData["platformFeeSeries"];
+  } | null;
+}
+
+interface FeeDistribution {
+  mean: number;
+  median: number;
+  p90: number;
+  p99: number;
+}
+
+interface DailyFeeChange {
+  day: number;
+  fees: number;
+  count: number;
+  change: number | null;
+}
+
+interface CoreFeeStats {
+  blocks: number;
+  totalFees: number;
+  transactions: number;
+  feePerBlock: FeeDistribution;
+  feePerTx: FeeDistribution;
+  maxFeeBlocks: Array<{ height: number; hash: string; time: number; totalFees: number; txCount: number }>;
+  daily: DailyFeeChange[];
+  // Compares the last complete day (dayOverDayDay) with the day before it
+  dayOverDay: number | null;
+  dayOverDayDay: number | null;
+}
+
+interface PlatformFeeStats {
+  epochs: number;
+  totalFees: number;
+  feePerEpoch: FeeDistribution;
+  maxFeeEpochs: Array<{ epochNumber: number; startTime: number; endTime: number; totalFees: number }>;
+  daily: DailyFeeChange[];
+  // Compares the last complete day (dayOverDayDay) with the day before it
+  dayOverDay: number | null;
+  dayOverDayDay: number | null;
+}
+
+interface TreasuryData {
+  superblocks: Array<{
+    height: number;
+    blockHash: string;
+    time: number;
+    paid: number;
+    available: number;
+    payouts: Array<{
+      vout: number;
+      payee: string;
+      amount: number;
+      proposalHash: string | null;
+    }>;
+  }>;
+  nextSuperblock: {
+    height: number;
+    estimatedTime: number;
+    available: number;
+  } | null;
 }
 
+interface BackfillProgress {
+  totalNeeded: number;
+  totalDone: number;
+  oldestHeight: number;
+  targetHeight: number;
+  status: "idle" | "running" | "paused" | "cancelled" | "complete" | "error";
+  running: boolean;
+}
+
+// Payloads of the /api/stream events
+interface LiveBlock {
+  height: number;
+  time: number;
+  fees: number;
+  reward: number;
+  txCount: number;
+}
+
+interface LiveEpoch {
+  epochNumber: number;
+  startTime: number;
+  endTime: number;
+  fees: number;
+}
+
+interface FeeRateDistribution {
+  enabled: boolean;
+  type: CoreTxType | null;
+  blocks: { cached: number; ingested: number };
+  transactions: number;
+  withFee: number;
+  totalFees: number;
+  instantSend: number;
+  avgSize: number;
+  feeRate: { mean: number | null; p10: number | null; median: number | null; p90: number | null; p99: number | null };
+  histogram: Array<{ from: number; to: number | null; count: number; fees: number }>;
+  byType: Array<{ type: CoreTxType; count: number; fees: number; instantSend: number; medianFeeRate: number | null }>;
+}
+
+interface TxTypeSeries {
+  enabled: boolean;
+  window: { from: number; to: number | null; bucket: BucketUnit; tz: string };
+  blocks: { cached: number; counted: number };
+  totals: Partial<Record<CoreTxType, number>>;
+  assetLocked: number;
+  assetUnlocked: number;
+  series: Array<{
+    t: number;
+    counts: Partial<Record<CoreTxType, number>>;
+    assetLocked: number;
+    assetUnlocked: number;
+  }>;
+}
+
+interface BlockSourceStatus {
+  name: string;
+  label: string;
+  configured: boolean;
+  active: boolean;
+  score: number;
+  successRate: number | null;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+const TX_TYPE_LABELS: Record<CoreTxType, string> = {
+  classic: "Classic",
+  coinjoin: "CoinJoin",
+  coinbase: "Coinbase",
+  "pro-reg": "ProRegTx",
+  "pro-up-serv": "ProUpServTx",
+  "pro-up-reg": "ProUpRegTx",
+  "pro-up-rev": "ProUpRevTx",
+  "quorum-commitment": "Quorum commitment",
+  "mn-hard-fork": "MnHfTx",
+  "asset-lock": "Asset lock",
+  "asset-unlock": "Asset unlock",
+};
+
+const TX_TYPE_COLORS: Record<CoreTxType, string> = {
+  classic: "hsl(var(--chart-5))",
+  coinjoin: "hsl(var(--chart-2))",
+  coinbase: "hsl(var(--muted-foreground))",
+  "pro-reg": "hsl(var(--chart-3))",
+  "pro-up-serv": "#2dd4bf",
+  "pro-up-reg": "#a3e635",
+  "pro-up-rev": "#f87171",
+  "quorum-commitment": "#facc15",
+  "mn-hard-fork": "#e879f9",
+  "asset-lock": "hsl(var(--chart-1))",
+  "asset-unlock": "hsl(var(--chart-4))",
+};
+
 const RANGES: Array<{ key: RangeKey; label: string }> = [
   { key: "day", label: "Day" },
   { key: "week", label: "Week" },
@@ -122,53 +354,277 @@ const RANGES: Array<{ key: RangeKey; label: string }> = [
   { key: "year", label: "Year" },
 ];
 
-function formatDash(amount: number) {
-  const abs = Math.abs(amount);
-  if (abs >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M DASH`;
-  if (abs >= 10_000) return `${(amount / 1_000).toFixed(1)}k DASH`;
-  if (abs >= 1_000) return `${(amount / 1_000).toFixed(2)}k DASH`;
-  if (abs >= 10) return `${amount.toFixed(2)} DASH`;
-  if (abs >= 1) return `${amount.toFixed(4)} DASH`;
-  if (abs >= 0.001) return `${amount.toFixed(5)} DASH`;
-  return `${amount.toFixed(8)} DASH`;
+// Without the event stream the dashboard polls; with it, a slow refresh picks up what events don't
+// carry (node counts, coverage, platform status)
+const POLL_MS = 60_000;
+const STREAM_REFRESH_MS = 10 * 60_000;
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// Formatted in the zone the server bucketed in, so labels line up with bucket boundaries
+function tickLabel(d: Date, range: RangeKey | null, bucket: BucketUnit, timeZone: string) {
+  if (bucket === "hour") return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", timeZone });
+  if (bucket === "month") return d.toLocaleDateString([], { year: "numeric", month: "short", timeZone });
+  if (range === "week") return d.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", timeZone });
+  return d.toLocaleDateString([], { month: "short", day: "numeric", timeZone });
+}
+
+// Pairs each point with the previous-period point nearest to it in time (the server has already
+// shifted those forward by the window length), skipping pairs more than half a step apart
+function alignPrevious<T extends { t: number }>(current: Array<{ t: number }>, previous: T[] | undefined): Array<T | undefined> {
+  if (!previous || previous.length === 0) return current.map(() => undefined);
+  const step = current.length > 1 ? (current[current.length - 1].t - current[0].t) / (current.length - 1) : Infinity;
+  let j = 0;
+  return current.map((p) => {
+    while (j + 1 < previous.length && Math.abs(previous[j + 1].t - p.t) <= Math.abs(previous[j].t - p.t)) j++;
+    return Math.abs(previous[j].t - p.t) <= step / 2 ? previous[j] : undefined;
+  });
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous !== 0 ? (current - previous) / Math.abs(previous) : null;
+}
+
+// Recomputes the change badges for the totals the previous window carries, as the server does.
+// Node count deltas compare end-of-window snapshots, which pushed updates don't move.
+function withCurrentDeltas(data: DashboardData): DashboardData {
+  const comparison = data.comparison;
+  if (!comparison) return data;
+  const deltas = { ...comparison.deltas };
+  for (const key of Object.keys(comparison.totals) as Array<keyof DashboardData["totals"]>) {
+    deltas[key] = percentChange(data.totals[key], comparison.totals[key] ?? 0);
+  }
+  const deltasQuote = { ...comparison.deltasQuote };
+  for (const key of Object.keys(comparison.totalsQuote ?? {}) as Array<keyof DashboardData["totalsQuote"]>) {
+    deltasQuote[key] = percentChange(data.totalsQuote[key], comparison.totalsQuote[key] ?? 0);
+  }
+  return { ...data, comparison: { ...comparison, deltas, deltasQuote } };
+}
+
+function inWindow(data: DashboardData, ms: number): boolean {
+  return ms >= data.window.from * 1000 && (data.window.to == null || ms <= data.window.to * 1000);
+}
+
+// Folds a freshly synced block into its bucket the same way the server aggregates, valued at the
+// current price. Heights at or below the cached tip are already in the payload.
+function applyNewBlock(data: DashboardData, block: LiveBlock): DashboardData {
+  if (block.height <= data.coreHeight) return data;
+  const ms = block.time * 1000;
+  if (!inWindow(data, ms)) return { ...data, coreHeight: block.height };
+
+  const t = startOfZonedBucket(ms, data.window.bucket, data.window.tz);
+  const feesQuote = block.fees * data.dashPrice;
+  const rewardQuote = block.reward * data.dashPrice;
+  const series = [...data.coreFeeSeries];
+  const i = series.findIndex((b) => b.t === t);
+  let masternodes: number;
+  if (i >= 0) {
+    const b = series[i];
+    masternodes = b.masternodes || data.totals.totalMasternodes;
+    series[i] = {
+      ...b,
+      fees: b.fees + block.fees,
+      reward: b.reward + block.reward,
+      feesQuote: b.feesQuote + feesQuote,
+      rewardQuote: b.rewardQuote + rewardQuote,
+      height: Math.max(b.height, block.height),
+      txCount: b.txCount + block.txCount,
+      blockCount: (b.blockCount ?? 1) + 1,
+    };
+  } else {
+    const last = series[series.length - 1];
+    masternodes = last?.masternodes || data.totals.totalMasternodes;
+    const bucket = {
+      t,
+      fees: block.fees,
+      reward: block.reward,
+      feesQuote,
+      rewardQuote,
+      height: block.height,
+      txCount: block.txCount,
+      blockCount: 1,
+      masternodes,
+      evoNodes: last?.evoNodes ?? data.totals.evoCount,
+    };
+    const at = series.findIndex((b) => b.t > t);
+    series.splice(at < 0 ? series.length : at, 0, bucket);
+  }
+
+  const payout = block.fees / masternodes;
+  const payoutQuote = feesQuote / masternodes;
+  return withCurrentDeltas({
+    ...data,
+    coreHeight: block.height,
+    coreFeeSeries: series,
+    totals: {
+      ...data.totals,
+      totalCoreFees: data.totals.totalCoreFees + block.fees,
+      totalCoreRewards: data.totals.totalCoreRewards + block.reward,
+      payoutPerMasternode: data.totals.payoutPerMasternode + payout,
+      payoutPerEvo: data.totals.payoutPerEvo + payout,
+    },
+    totalsQuote: {
+      ...data.totalsQuote,
+      totalCoreFees: data.totalsQuote.totalCoreFees + feesQuote,
+      totalCoreRewards: data.totalsQuote.totalCoreRewards + rewardQuote,
+      payoutPerMasternode: data.totalsQuote.payoutPerMasternode + payoutQuote,
+      payoutPerEvo: data.totalsQuote.payoutPerEvo + payoutQuote,
+    },
+  });
+}
+
+// Epoch fees grow while the epoch is open, so an epoch already in the series is replaced and only
+// the difference is added to the totals
+function applyEpoch(data: DashboardData, epoch: LiveEpoch): DashboardData {
+  if (!inWindow(data, epoch.startTime)) return data;
+
+  const series = [...data.platformFeeSeries];
+  const point = {
+    t: epoch.startTime,
+    fees: epoch.fees,
+    feesQuote: epoch.fees * data.dashPrice,
+    epochNumber: epoch.epochNumber,
+  };
+  const i = series.findIndex((e) => e.epochNumber === epoch.epochNumber);
+  const previous = i >= 0 ? series[i] : null;
+  if (i >= 0) {
+    series[i] = point;
+  } else {
+    const at = series.findIndex((e) => e.t > point.t);
+    series.splice(at < 0 ? series.length : at, 0, point);
+  }
+
+  const evoNodes = data.totals.evoCount || 1;
+  const delta = point.fees - (previous?.fees ?? 0);
+  const deltaQuote = point.feesQuote - (previous?.feesQuote ?? 0);
+  return withCurrentDeltas({
+    ...data,
+    platformFeeSeries: series,
+    totals: {
+      ...data.totals,
+      totalPlatformFeesDash: data.totals.totalPlatformFeesDash + delta,
+      payoutPerEvo: data.totals.payoutPerEvo + delta / evoNodes,
+    },
+    totalsQuote: {
+      ...data.totalsQuote,
+      totalPlatformFeesDash: data.totalsQuote.totalPlatformFeesDash + deltaQuote,
+      payoutPerEvo: data.totalsQuote.payoutPerEvo + deltaQuote / evoNodes,
+    },
+  });
+}
+
+// Events carry the USD price; the quote moves with it at the exchange rate the payload was built with.
+// Only "now" valuations are repriced wholesale, at-time values keep the price of their own time.
+function applyPrice(data: DashboardData, usd: number): DashboardData {
+  if (!(usd > 0) || !(data.dashPriceUsd > 0) || !(data.dashPrice > 0)) return data;
+  const dashPrice = usd * (data.dashPrice / data.dashPriceUsd);
+  const scale = dashPrice / data.dashPrice;
+
+  const totalsQuote = { ...data.totalsQuote };
+  totalsQuote.totalCreditsOnPlatformDash *= scale;
+  if (data.valuation === "at-time") {
+    return { ...data, dashPrice, dashPriceUsd: usd, totalsQuote };
+  }
+  totalsQuote.totalCoreFees *= scale;
+  totalsQuote.totalCoreRewards *= scale;
+  totalsQuote.totalPlatformFeesDash *= scale;
+  totalsQuote.payoutPerMasternode *= scale;
+  totalsQuote.payoutPerEvo *= scale;
+  // The previous window was valued at the same price, so it moves with it and the deltas hold
+  const comparison = data.comparison && {
+    ...data.comparison,
+    totalsQuote: Object.fromEntries(
+      Object.entries(data.comparison.totalsQuote ?? {}).map(([key, value]) => [key, value * scale]),
+    ),
+    coreFeeSeries: scaleCoreQuotes(data.comparison.coreFeeSeries, scale),
+    platformFeeSeries: scalePlatformQuotes(data.comparison.platformFeeSeries, scale),
+  };
+  return {
+    ...data,
+    dashPrice,
+    dashPriceUsd: usd,
+    totalsQuote,
+    coreFeeSeries: scaleCoreQuotes(data.coreFeeSeries, scale),
+    platformFeeSeries: scalePlatformQuotes(data.platformFeeSeries, scale),
+    comparison,
+  };
+}
+
+function scaleCoreQuotes(series: DashboardData["coreFeeSeries"], scale: number): DashboardData["coreFeeSeries"] {
+  return series.map((b) => ({ ...b, feesQuote: b.feesQuote * scale, rewardQuote: b.rewardQuote * scale }));
+}
+
+function scalePlatformQuotes(series: DashboardData["platformFeeSeries"], scale: number): DashboardData["platformFeeSeries"] {
+  return series.map((e) => ({ ...e, feesQuote: e.feesQuote * scale }));
 }
 
-function formatUsd(amount: number) {
-  if (amount >= 1_000_000) return `$${(amount / 1_000_000).toFixed(2)}M`;
-  if (amount >= 10_000) return `$${(amount / 1_000).toFixed(1)}k`;
-  if (amount >= 1_000) return `$${amount.toFixed(0)}`;
-  if (amount >= 1) return `$${amount.toFixed(2)}`;
-  if (amount >= 0.01) return `$${amount.toFixed(4)}`;
-  return `$${amount.toFixed(6)}`;
+const URL_DATE_FORMAT = "yyyy-MM-dd";
+
+function windowQuery(range: RangeKey, custom: DateWindow | null): string {
+  if (!custom) return `range=${range}`;
+  const from = Math.floor(startOfDay(custom.from).getTime() / 1000);
+  const to = Math.floor(endOfDay(custom.to).getTime() / 1000);
+  return `from=${from}&to=${to}`;
 }
 
-function formatDashCompact(amount: number) {
-  const abs = Math.abs(amount);
-  if (abs >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M`;
-  if (abs >= 10_000) return `${(amount / 1_000).toFixed(1)}k`;
-  if (abs >= 1_000) return `${(amount / 1_000).toFixed(2)}k`;
-  if (abs >= 10) return amount.toFixed(2);
-  if (abs >= 1) return amount.toFixed(3);
-  if (abs >= 0.001) return amount.toFixed(5);
-  return amount.toFixed(8);
+function windowLabel(range: RangeKey, custom: DateWindow | null): string {
+  if (!custom) return RANGES.find((r) => r.key === range)?.label ?? "Range";
+  return `${format(custom.from, "MMM d, yyyy")} – ${format(custom.to, "MMM d, yyyy")}`;
 }
 
-function tickLabel(d: Date, range: RangeKey) {
-  if (range === "day") return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-  if (range === "week") return d.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
-  if (range === "month") return d.toLocaleDateString([], { month: "short", day: "numeric" });
-  return d.toLocaleDateString([], { year: "numeric", month: "short" });
+// Range, dates, currency and valuation live in the query string so a view can be shared as a link
+function readUrlState() {
+  const params = new URLSearchParams(window.location.search);
+  const parseDate = (value: string | null) => {
+    if (!value) return null;
+    const d = parse(value, URL_DATE_FORMAT, new Date());
+    return isValid(d) ? d : null;
+  };
+  const from = parseDate(params.get("from"));
+  const to = parseDate(params.get("to")) ?? from;
+  const range = RANGES.find((r) => r.key === params.get("range"))?.key ?? "month";
+  return {
+    range,
+    customWindow: from && to && from <= to ? { from, to } : null,
+    valuation: (params.get("valuation") === "at-time" ? "at-time" : "now") as Valuation,
+    currency: params.get("currency")?.toUpperCase() || "USD",
+    compare: params.get("compare") === "previous",
+  };
+}
+
+function writeUrlState(range: RangeKey, custom: DateWindow | null, valuation: Valuation, currency: string, compare: boolean) {
+  const params = new URLSearchParams();
+  if (custom) {
+    params.set("from", format(custom.from, URL_DATE_FORMAT));
+    params.set("to", format(custom.to, URL_DATE_FORMAT));
+  } else {
+    params.set("range", range);
+  }
+  if (valuation !== "now") params.set("valuation", valuation);
+  if (currency !== "USD") params.set("currency", currency);
+  if (compare) params.set("compare", "previous");
+  window.history.replaceState(null, "", `${window.location.pathname}?${params.toString()}`);
+}
+
+function sourceStatusDot(source: BlockSourceStatus) {
+  if (!source.configured) return "bg-white/20";
+  if (source.successRate == null) return "bg-white/40";
+  if (source.score >= 0.5) return "bg-emerald-400";
+  if (source.score >= 0.2) return "bg-amber-400";
+  return "bg-red-400";
 }
 
 function StatTile(props: {
   title: string;
   value: string;
-  usdValue?: string;
+  quoteValue?: string;
   hint: string;
   icon: React.ReactNode;
   tone: "core" | "platform" | "neutral";
   testId: string;
   logo?: string;
+  // Change versus the previous period; undefined when not comparing
+  change?: number | null;
 }) {
   const toneClass =
     props.tone === "core"
@@ -204,10 +660,26 @@ function StatTile(props: {
             <p className="truncate font-serif text-2xl leading-none tracking-tight sm:text-3xl">
               {props.value}
             </p>
+            {props.change !== undefined && (
+              <span
+                className={
+                  "shrink-0 rounded-full border px-1.5 py-0.5 font-mono text-[11px] " +
+                  (props.change == null
+                    ? "border-white/10 bg-white/5 text-muted-foreground"
+                    : props.change >= 0
+                      ? "border-emerald-400/30 bg-emerald-400/10 text-emerald-300"
+                      : "border-red-400/30 bg-red-400/10 text-red-300")
+                }
+                title="Change versus the previous period"
+                data-testid={`${props.testId}-change`}
+              >
+                {formatChange(props.change)}
+              </span>
+            )}
           </div>
-          {props.usdValue && (
-            <p className="mt-1 text-sm text-muted-foreground/70 font-mono" data-testid={`${props.testId}-usd`}>
-              {props.usdValue}
+          {props.quoteValue && (
+            <p className="mt-1 text-sm text-muted-foreground/70 font-mono" data-testid={`${props.testId}-quote`}>
+              {props.quoteValue}
             </p>
           )}
           <p className="mt-1 text-xs text-muted-foreground/90">{props.hint}</p>
@@ -224,7 +696,7 @@ function StatTile(props: {
 }
 
 function RangeMenu(props: {
-  value: RangeKey;
+  value: RangeKey | null;
   onChange: (r: RangeKey) => void;
   testId: string;
 }) {
@@ -260,27 +732,301 @@ function RangeMenu(props: {
   );
 }
 
+function DateRangePicker(props: {
+  value: DateWindow | null;
+  onChange: (w: DateWindow) => void;
+  testId: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(undefined);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(props.value ? { from: props.value.from, to: props.value.to } : undefined);
+    setOpen(next);
+  };
+
+  const apply = () => {
+    if (!draft?.from) return;
+    props.onChange({ from: draft.from, to: draft.to ?? draft.from });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="secondary"
+          className="h-9 gap-2 rounded-full px-3"
+          data-testid={props.testId}
+        >
+          <CalendarDays className="h-4 w-4 opacity-80" />
+          <span className="text-xs font-semibold tracking-wide">
+            {props.value ? `${format(props.value.from, "MMM d")} – ${format(props.value.to, "MMM d")}` : "Dates"}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-auto rounded-2xl border-white/10 bg-[hsl(var(--popover)/0.92)] p-2 backdrop-blur"
+      >
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={draft}
+          onSelect={setDraft}
+          defaultMonth={draft?.from}
+          disabled={{ after: new Date() }}
+        />
+        <div className="flex items-center justify-between gap-3 px-3 pb-2">
+          <span className="text-xs text-muted-foreground">
+            {draft?.from ? windowLabel("day", { from: draft.from, to: draft.to ?? draft.from }) : "Pick a start and end day"}
+          </span>
+          <Button size="sm" className="rounded-full" disabled={!draft?.from} onClick={apply} data-testid="button-apply-dates">
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CurrencyMenu(props: {
+  value: string;
+  options: QuoteCurrencyOption[];
+  onChange: (c: string) => void;
+  testId: string;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="secondary"
+          className="h-9 gap-2 rounded-full px-3"
+          data-testid={props.testId}
+        >
+          <span className="text-xs font-semibold tracking-wide">{props.value}</span>
+          <ChevronDown className="h-4 w-4 opacity-80" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="min-w-44 rounded-2xl border-white/10 bg-[hsl(var(--popover)/0.92)] p-1 backdrop-blur"
+      >
+        {props.options.map((o) => (
+          <DropdownMenuItem
+            key={o.code}
+            className="cursor-pointer justify-between gap-4 rounded-xl"
+            onClick={() => props.onChange(o.code)}
+            disabled={o.dashPrice == null}
+            data-testid={`menu-currency-${o.code}`}
+          >
+            <span>{o.code}</span>
+            <span className="font-mono text-xs text-muted-foreground">
+              {o.dashPrice != null ? formatQuote(o.dashPrice, o.code) : "—"}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+const EXPORT_FORMATS = [
+  { key: "csv", label: "CSV" },
+  { key: "ndjson", label: "NDJSON" },
+  { key: "parquet", label: "Parquet" },
+] as const;
+
+function DownloadMenu(props: { endpoint: string; query: string; testId: string }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="secondary"
+          size="icon"
+          className="h-9 w-9 rounded-full"
+          title="Download data"
+          data-testid={props.testId}
+        >
+          <Download className="h-4 w-4 opacity-80" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="min-w-36 rounded-2xl border-white/10 bg-[hsl(var(--popover)/0.92)] p-1 backdrop-blur"
+      >
+        {EXPORT_FORMATS.map((f) => (
+          <DropdownMenuItem key={f.key} asChild className="cursor-pointer rounded-xl">
+            <a href={`${props.endpoint}?${props.query}&format=${f.key}`} download data-testid={`${props.testId}-${f.key}`}>
+              {f.label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function formatChange(change: number | null) {
+  if (change == null) return "—";
+  return `${change >= 0 ? "+" : ""}${(change * 100).toFixed(1)}%`;
+}
+
+function StatsDrawer(props: { dayOverDay: number | null; dayOverDayDay: number | null; testId: string; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-t border-white/10">
+      <CollapsibleTrigger asChild>
+        <button
+          className="flex w-full items-center justify-between gap-3 px-5 py-3 text-xs text-muted-foreground transition-colors hover:bg-white/5 sm:px-6"
+          data-testid={`toggle-${props.testId}`}
+        >
+          <span className="font-semibold tracking-wide">Fee statistics</span>
+          <span className="flex items-center gap-2">
+            <span title="Last complete day against the day before it">
+              Day over day{props.dayOverDayDay != null
+                ? ` (${new Date(props.dayOverDayDay).toLocaleDateString([], { month: "short", day: "numeric", timeZone: BROWSER_TIME_ZONE })})`
+                : ""}: {formatChange(props.dayOverDay)}
+            </span>
+            <ChevronDown className={"h-4 w-4 transition-transform " + (open ? "rotate-180" : "")} />
+          </span>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-5 pb-5 text-xs sm:px-6" data-testid={props.testId}>
+        {props.children}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function DistributionTable(props: { rows: Array<{ label: string; dist: FeeDistribution }> }) {
+  return (
+    <div className="grid grid-cols-[minmax(0,1.4fr)_repeat(4,minmax(0,1fr))] gap-x-3 gap-y-1.5">
+      <span />
+      {["Mean", "Median", "p90", "p99"].map((h) => (
+        <span key={h} className="text-right text-muted-foreground">{h}</span>
+      ))}
+      {props.rows.map((r) => (
+        <div key={r.label} className="contents">
+          <span className="text-muted-foreground">{r.label}</span>
+          {[r.dist.mean, r.dist.median, r.dist.p90, r.dist.p99].map((v, i) => (
+            <span key={i} className="text-right font-mono">{formatDash(v)}</span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RecentDays({ daily }: { daily: DailyFeeChange[] }) {
+  if (daily.length === 0) return null;
+  return (
+    <div>
+      <div className="mb-1.5 text-muted-foreground">Daily totals</div>
+      <div className="space-y-1">
+        {daily.slice(-7).reverse().map((d) => (
+          <div key={d.day} className="flex items-center justify-between gap-3">
+            <span>{new Date(d.day).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })}</span>
+            <span className="font-mono">
+              {formatDash(d.fees)}
+              <span className={"ml-2 " + (d.change == null ? "text-muted-foreground" : d.change >= 0 ? "text-emerald-300" : "text-red-300")}>
+                {formatChange(d.change)}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CoreFeeStatsDrawer({ stats }: { stats: CoreFeeStats | null }) {
+  if (!stats || stats.blocks === 0) return null;
+  return (
+    <StatsDrawer dayOverDay={stats.dayOverDay} dayOverDayDay={stats.dayOverDayDay} testId="stats-core">
+      <DistributionTable
+        rows={[
+          { label: "Fee per block", dist: stats.feePerBlock },
+          { label: "Fee per transaction", dist: stats.feePerTx },
+        ]}
+      />
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <div className="mb-1.5 text-muted-foreground">Highest-fee blocks</div>
+          <div className="space-y-1">
+            {stats.maxFeeBlocks.map((b) => (
+              <div key={b.hash} className="flex items-center justify-between gap-3" title={b.hash}>
+                <span>
+                  #{b.height.toLocaleString()}
+                  <span className="ml-2 text-muted-foreground">{b.txCount.toLocaleString()} tx</span>
+                </span>
+                <span className="font-mono">{formatDash(b.totalFees)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <RecentDays daily={stats.daily} />
+      </div>
+    </StatsDrawer>
+  );
+}
+
+function PlatformFeeStatsDrawer({ stats }: { stats: PlatformFeeStats | null }) {
+  if (!stats || stats.epochs === 0) return null;
+  return (
+    <StatsDrawer dayOverDay={stats.dayOverDay} dayOverDayDay={stats.dayOverDayDay} testId="stats-platform">
+      <DistributionTable rows={[{ label: "Fee per epoch", dist: stats.feePerEpoch }]} />
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <div className="mb-1.5 text-muted-foreground">Highest-fee epochs</div>
+          <div className="space-y-1">
+            {stats.maxFeeEpochs.map((e) => (
+              <div key={e.epochNumber} className="flex items-center justify-between gap-3">
+                <span>
+                  Epoch {e.epochNumber}
+                  <span className="ml-2 text-muted-foreground">{new Date(e.startTime).toLocaleDateString()}</span>
+                </span>
+                <span className="font-mono">{formatDash(e.totalFees)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <RecentDays daily={stats.daily} />
+      </div>
+    </StatsDrawer>
+  );
+}
+
 function CoreFeesChart(props: {
   series: DashboardData["coreFeeSeries"];
-  range: RangeKey;
+  coverage?: DashboardData["coreCoverage"];
+  backfill?: BackfillProgress;
+  range: RangeKey | null;
+  bucket: BucketUnit;
+  timeZone: string;
   showRewards: boolean;
   updatedAt: number;
+  stats: CoreFeeStats | null;
+  previousSeries?: DashboardData["coreFeeSeries"];
+  exportQuery: string;
 }) {
   const chartData = useMemo(() => {
     const series = props.series;
     if (series.length === 0) return [];
+    const previous = alignPrevious(series, props.previousSeries);
 
-    return series.map((p) => {
+    return series.map((p, i) => {
       const d = new Date(p.t);
-      const label = tickLabel(d, props.range);
+      const label = tickLabel(d, props.range, props.bucket, props.timeZone);
       return {
         label,
         fees: p.fees,
         rewards: props.showRewards ? p.reward - p.fees : undefined,
+        previousFees: previous[i]?.fees,
         height: p.height,
       };
     });
-  }, [props.series, props.range, props.showRewards]);
+  }, [props.series, props.previousSeries, props.range, props.bucket, props.timeZone, props.showRewards]);
 
   const totalFees = props.series.reduce((s, p) => s + p.fees, 0);
   const totalBlocks = props.series.reduce((s, p) => s + (p.blockCount || 1), 0);
@@ -315,12 +1061,38 @@ function CoreFeesChart(props: {
               >
                 {totalBlocks.toLocaleString()} blocks
               </Badge>
+              {props.coverage && props.coverage.expectedBlocks > 0 && (
+                <Badge
+                  variant="secondary"
+                  className={
+                    "rounded-full border " +
+                    (props.coverage.percent >= 99.5
+                      ? "border-white/10 bg-white/5"
+                      : "border-amber-400/30 bg-amber-400/10 text-amber-200")
+                  }
+                  title={`${props.coverage.missingBlocks.toLocaleString()} of ${props.coverage.expectedBlocks.toLocaleString()} blocks not cached`}
+                  data-testid="badge-coverage-core"
+                >
+                  Coverage: {props.coverage.percent.toFixed(1)}%
+                </Badge>
+              )}
+              {props.backfill?.running && props.backfill.status === "running" && props.backfill.totalNeeded > 0 && (
+                <Badge
+                  variant="secondary"
+                  className="rounded-full border border-white/10 bg-white/5"
+                  title={`Fetching older blocks down to #${props.backfill.targetHeight.toLocaleString()}`}
+                  data-testid="badge-backfill-core"
+                >
+                  Backfilling: {Math.min(100, (props.backfill.totalDone / props.backfill.totalNeeded) * 100).toFixed(1)}%
+                </Badge>
+              )}
               <Separator orientation="vertical" className="mx-1 h-5 bg-white/10" />
               <span className="text-xs text-muted-foreground" data-testid="text-updated-core">
                 Updated {formatDistanceToNowStrict(props.updatedAt)} ago
               </span>
             </div>
           </div>
+          <DownloadMenu endpoint="/api/export/core-blocks" query={props.exportQuery} testId="menu-download-core" />
         </div>
       </div>
 
@@ -364,7 +1136,7 @@ function CoreFeesChart(props: {
               }}
               labelStyle={{ color: "hsl(var(--muted-foreground))" }}
               formatter={(value: unknown, name: string) => {
-                const label = name === "fees" ? "Fees" : "Block Rewards";
+                const label = name === "fees" ? "Fees" : name === "previousFees" ? "Previous Period Fees" : "Block Rewards";
                 return [formatDash(Number(value)), label];
               }}
             />
@@ -393,13 +1165,25 @@ function CoreFeesChart(props: {
               activeDot={{ r: 4, stroke: "hsl(var(--primary))", strokeWidth: 2, fill: "hsl(var(--background))" }}
               name="fees"
             />
-            {(props.showRewards) && (
+            {props.previousSeries && (
+              <Line
+                type="monotone"
+                dataKey="previousFees"
+                stroke="hsl(var(--primary) / 0.35)"
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls
+                name="previousFees"
+              />
+            )}
+            {(props.showRewards || props.previousSeries) && (
               <Legend
                 verticalAlign="top"
                 height={28}
                 formatter={(value: string) => (
                   <span className="text-xs text-muted-foreground">
-                    {value === "fees" ? "Transaction Fees" : "Block Rewards (subsidy)"}
+                    {value === "fees" ? "Transaction Fees" : value === "previousFees" ? "Previous Period" : "Block Rewards (subsidy)"}
                   </span>
                 )}
               />
@@ -407,6 +1191,7 @@ function CoreFeesChart(props: {
           </ComposedChart>
         </ResponsiveContainer>
       </div>
+      <CoreFeeStatsDrawer stats={props.stats} />
     </Card>
   );
 }
@@ -414,9 +1199,12 @@ function CoreFeesChart(props: {
 function PlatformFeesChart(props: {
   series: DashboardData["platformFeeSeries"];
   totalCreditsOnPlatformDash: number;
-  range: RangeKey;
+  range: RangeKey | null;
   showRewards: boolean;
   updatedAt: number;
+  stats: PlatformFeeStats | null;
+  previousSeries?: DashboardData["platformFeeSeries"];
+  exportQuery: string;
 }) {
   const chartData = useMemo(() => {
     const series = props.series;
@@ -424,8 +1212,9 @@ function PlatformFeesChart(props: {
     const tMin = series[0].t;
     const tMax = series[series.length - 1].t;
     const spanMs = tMax - tMin;
+    const previous = alignPrevious(series, props.previousSeries);
 
-    return series.map((p) => {
+    return series.map((p, i) => {
       const d = new Date(p.t);
       let label: string;
       if (spanMs < 3600_000) {
@@ -443,10 +1232,11 @@ function PlatformFeesChart(props: {
         label,
         fees: p.fees,
         heldInContracts: props.totalCreditsOnPlatformDash,
+        previousFees: previous[i]?.fees,
         epochNumber: p.epochNumber,
       };
     });
-  }, [props.series, props.totalCreditsOnPlatformDash]);
+  }, [props.series, props.previousSeries, props.totalCreditsOnPlatformDash]);
 
   const totalFees = props.series.reduce((s, p) => s + p.fees, 0);
 
@@ -493,6 +1283,7 @@ function PlatformFeesChart(props: {
               </span>
             </div>
           </div>
+          <DownloadMenu endpoint="/api/export/platform-epochs" query={props.exportQuery} testId="menu-download-platform" />
         </div>
       </div>
 
@@ -548,7 +1339,7 @@ function PlatformFeesChart(props: {
                 return epoch != null ? `${label} — Epoch ${epoch}` : label;
               }}
               formatter={(value: unknown, name: string) => {
-                const displayName = name === "fees" ? "Epoch Fees" : "Held in Contracts";
+                const displayName = name === "fees" ? "Epoch Fees" : name === "previousFees" ? "Previous Period Fees" : "Held in Contracts";
                 return [formatDash(Number(value)), displayName];
               }}
             />
@@ -564,6 +1355,19 @@ function PlatformFeesChart(props: {
               activeDot={{ r: 4, stroke: "hsl(var(--accent))", strokeWidth: 2, fill: "hsl(var(--background))" }}
               name="fees"
             />
+            {props.previousSeries && (
+              <Line
+                yAxisId="left"
+                type="monotone"
+                dataKey="previousFees"
+                stroke="hsl(var(--accent) / 0.35)"
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls
+                name="previousFees"
+              />
+            )}
             {props.showRewards && (
               <Line
                 yAxisId="right"
@@ -581,13 +1385,18 @@ function PlatformFeesChart(props: {
               height={28}
               formatter={(value: string) => (
                 <span className="text-xs text-muted-foreground">
-                  {value === "fees" ? "Epoch Fees (to EVO nodes)" : "Held in Contracts (future payout)"}
+                  {value === "fees"
+                    ? "Epoch Fees (to EVO nodes)"
+                    : value === "previousFees"
+                      ? "Previous Period"
+                      : "Held in Contracts (future payout)"}
                 </span>
               )}
             />
           </ComposedChart>
         </ResponsiveContainer>
       </div>
+      <PlatformFeeStatsDrawer stats={props.stats} />
     </Card>
   );
 }
@@ -606,9 +1415,13 @@ function sankeyPath(x0: number, y0: number, x1: number, y1: number, thickness0:
 function RewardFlowSankey({ data }: { data: SankeyData | null }) {
   if (!data) return null;
 
-  const price = data.dashPriceUsd;
+  const price = data.dashPrice;
   const fmtDash = (v: number) => v >= 1 ? `${v.toLocaleString(undefined, { maximumFractionDigits: 0 })} DASH` : `${v.toFixed(4)} DASH`;
-  const fmtUsd = (v: number) => `$${(v * price).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  const fmtQuote = (v: number) =>
+    data.currency === "BTC"
+      ? formatQuote(v * price, "BTC")
+      : `${quoteSymbol(data.currency)}${(v * price).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  const nodeLabel = (id: string) => nodesDef.find((n) => n.id === id)?.label ?? id;
 
   const W = 1200;
   const H = 900;
@@ -762,7 +1575,9 @@ function RewardFlowSankey({ data }: { data: SankeyData | null }) {
         stroke={link.color}
         strokeOpacity={0.45}
         strokeWidth={0.5}
-      />
+      >
+        <title>{`${nodeLabel(link.from)} → ${nodeLabel(link.to)}: ${fmtDash(link.value)} · ${fmtQuote(link.value)}`}</title>
+      </path>
     );
   });
 
@@ -781,6 +1596,7 @@ function RewardFlowSankey({ data }: { data: SankeyData | null }) {
 
     return (
       <g key={n.id}>
+        <title>{`${n.label}: ${fmtDash(val)} · ${fmtQuote(val)}`}</title>
         <rect
           x={pos.x}
           y={pos.y}
@@ -799,7 +1615,7 @@ function RewardFlowSankey({ data }: { data: SankeyData | null }) {
           {fmtDash(val)}
         </text>
         <text x={labelX} y={labelY + 38} textAnchor={anchor} fill="#ffffff" fontSize={22} fontFamily="'Roboto Condensed', sans-serif" opacity={0.75}>
-          {fmtUsd(val)}
+          {fmtQuote(val)}
         </text>
       </g>
     );
@@ -815,6 +1631,7 @@ function RewardFlowSankey({ data }: { data: SankeyData | null }) {
             </h2>
             <p className="mt-1 text-sm text-muted-foreground">
               Previous 30 days &middot; {data.regularMasternodes.toLocaleString()} standard + {data.evoNodes.toLocaleString()} EVO masternodes &middot; Block subsidy {data.subsidy.toFixed(4)} DASH
+              {data.valuation === "at-time" && ` · ${data.currency} at ${formatQuote(data.dashPrice, data.currency)} average over the window`}
             </p>
           </div>
           <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-sankey-updated">
@@ -832,31 +1649,602 @@ function RewardFlowSankey({ data }: { data: SankeyData | null }) {
   );
 }
 
+function NodeCountChart(props: {
+  series: DashboardData["nodeCountSeries"];
+  range: RangeKey | null;
+  bucket: BucketUnit;
+  timeZone: string;
+}) {
+  const chartData = useMemo(
+    () =>
+      props.series.map((p) => ({
+        ...p,
+        label: tickLabel(new Date(p.t), props.range, props.bucket, props.timeZone),
+        regular: p.masternodes - p.evoNodes,
+      })),
+    [props.series, props.range, props.bucket, props.timeZone],
+  );
+
+  const latest = props.series[props.series.length - 1];
+  const first = props.series[0];
+  const change = latest && first ? latest.masternodes - first.masternodes : 0;
+
+  return (
+    <Card className="glass noise overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-node-counts">
+      <div className="p-5 sm:p-6">
+        <div className="flex items-center gap-3">
+          <Network className="h-5 w-5 text-[hsl(var(--chart-3))]" />
+          <h2 className="font-serif text-lg tracking-tight sm:text-xl">Masternode Count</h2>
+        </div>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Enabled masternodes and EVO nodes over the selected window, used to split fees per bucket
+        </p>
+        {latest && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-node-count">
+              {latest.masternodes.toLocaleString()} enabled · {latest.evoNodes.toLocaleString()} EVO
+            </Badge>
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-node-change">
+              {change >= 0 ? "+" : ""}{change.toLocaleString()} over window
+            </Badge>
+            {latest.poseBanned > 0 && (
+              <Badge variant="secondary" className="rounded-full border border-red-400/30 bg-red-400/10" data-testid="badge-node-banned">
+                {latest.poseBanned.toLocaleString()} PoSe-banned
+              </Badge>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="h-[240px] w-full px-2 pb-4 sm:px-4" data-testid="chart-node-counts">
+        {chartData.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            No masternode count history recorded for this window yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 16, left: 6, bottom: 0 }}>
+              <CartesianGrid stroke="hsl(var(--border) / 0.6)" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                interval="preserveStartEnd"
+                minTickGap={24}
+              />
+              <YAxis
+                yAxisId="left"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                width={50}
+                domain={["auto", "auto"]}
+              />
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                width={40}
+                domain={["auto", "auto"]}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: "hsl(var(--popover) / 0.92)",
+                  border: "1px solid hsl(var(--border) / 0.7)",
+                  borderRadius: 16,
+                  backdropFilter: "blur(10px)",
+                  color: "hsl(var(--foreground))",
+                }}
+                labelStyle={{ color: "hsl(var(--muted-foreground))" }}
+                formatter={(value: unknown, name: string) => [Number(value).toLocaleString(), name]}
+              />
+              <Line yAxisId="left" type="stepAfter" dataKey="masternodes" name="Enabled masternodes" stroke="hsl(var(--chart-3))" strokeWidth={2} dot={false} />
+              <Line yAxisId="left" type="stepAfter" dataKey="poseBanned" name="PoSe-banned" stroke="#f87171" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+              <Line yAxisId="right" type="stepAfter" dataKey="evoNodes" name="EVO nodes" stroke="hsl(var(--chart-4))" strokeWidth={2} dot={false} />
+              <Legend
+                verticalAlign="top"
+                height={28}
+                formatter={(value: string) => <span className="text-xs text-muted-foreground">{value}</span>}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+function formatFeeRate(rate: number | null) {
+  return rate != null ? `${rate.toFixed(rate < 10 ? 2 : 0)} duff/B` : "—";
+}
+
+// Only shown once deep transaction ingestion is on or has left rows behind
+function FeeRateHistogram({ query }: { query: string }) {
+  const [type, setType] = useState<CoreTxType | null>(null);
+  const [dist, setDist] = useState<FeeRateDistribution | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/core/fee-distribution?${query}` + (type ? `&type=${type}` : ""))
+      .then((r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.json();
+      })
+      .then(setDist)
+      .catch(() => setDist(null));
+  }, [query, type]);
+
+  const chartData = useMemo(
+    () =>
+      (dist?.histogram ?? []).map((b) => ({
+        label: b.to == null ? `${b.from}+` : b.from === 0 ? `<${b.to}` : `${b.from}–${b.to}`,
+        count: b.count,
+        fees: b.fees,
+      })),
+    [dist],
+  );
+
+  if (!dist || (!dist.enabled && dist.blocks.ingested === 0)) return null;
+
+  const instantShare = dist.transactions > 0 ? (dist.instantSend / dist.transactions) * 100 : 0;
+
+  return (
+    <Card className="glass noise mt-6 overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-fee-rates">
+      <div className="flex flex-wrap items-start justify-between gap-3 p-5 sm:p-6">
+        <div className="min-w-0">
+          <div className="flex items-center gap-3">
+            <Coins className="h-5 w-5 text-[hsl(var(--chart-1))]" />
+            <h2 className="font-serif text-lg tracking-tight sm:text-xl">Fee Rate Distribution</h2>
+          </div>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Transactions per fee-rate band over the selected window, from per-transaction ingestion
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-fee-rate-median">
+              Median: {formatFeeRate(dist.feeRate.median)}
+            </Badge>
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-fee-rate-p90">
+              p90: {formatFeeRate(dist.feeRate.p90)}
+            </Badge>
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-instantsend-share">
+              InstantSend: {instantShare.toFixed(1)}%
+            </Badge>
+            {dist.blocks.cached > 0 && dist.blocks.ingested < dist.blocks.cached && (
+              <Badge
+                variant="secondary"
+                className="rounded-full border border-amber-400/30 bg-amber-400/10 text-amber-200"
+                title="Older blocks are ingested in the background"
+                data-testid="badge-fee-rate-coverage"
+              >
+                {dist.blocks.ingested.toLocaleString()} of {dist.blocks.cached.toLocaleString()} blocks ingested
+              </Badge>
+            )}
+          </div>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="secondary" className="h-9 gap-2 rounded-full px-3" data-testid="select-fee-rate-type">
+              <span className="text-xs font-semibold tracking-wide">{type ? TX_TYPE_LABELS[type] : "All types"}</span>
+              <ChevronDown className="h-4 w-4 opacity-80" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            align="end"
+            className="min-w-40 rounded-2xl border-white/10 bg-[hsl(var(--popover)/0.92)] p-1 backdrop-blur"
+          >
+            <DropdownMenuItem className="cursor-pointer rounded-xl" onClick={() => setType(null)} data-testid="menu-fee-rate-type-all">
+              All types
+            </DropdownMenuItem>
+            {(Object.keys(TX_TYPE_LABELS) as CoreTxType[]).filter((t) => t !== "coinbase").map((t) => (
+              <DropdownMenuItem
+                key={t}
+                className="cursor-pointer rounded-xl"
+                onClick={() => setType(t)}
+                data-testid={`menu-fee-rate-type-${t}`}
+              >
+                {TX_TYPE_LABELS[t]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="h-[240px] w-full px-2 pb-4 sm:px-4" data-testid="chart-fee-rates">
+        {dist.withFee === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            No transaction fees recorded for this window yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 10, right: 16, left: 6, bottom: 0 }}>
+              <CartesianGrid stroke="hsl(var(--border) / 0.6)" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              />
+              <YAxis
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                width={50}
+                tickFormatter={(v) => Number(v).toLocaleString()}
+              />
+              <Tooltip
+                cursor={{ fill: "hsl(var(--border) / 0.2)" }}
+                contentStyle={{
+                  background: "hsl(var(--popover) / 0.92)",
+                  border: "1px solid hsl(var(--border) / 0.7)",
+                  borderRadius: 16,
+                  backdropFilter: "blur(10px)",
+                  color: "hsl(var(--foreground))",
+                }}
+                labelStyle={{ color: "hsl(var(--muted-foreground))" }}
+                labelFormatter={(label: string) => `${label} duff/B`}
+                formatter={(value: unknown, _name: string, item: any) => [
+                  `${Number(value).toLocaleString()} txs · ${formatDash(item?.payload?.fees ?? 0)}`,
+                  "Transactions",
+                ]}
+              />
+              <Bar dataKey="count" fill="hsl(var(--chart-1))" fillOpacity={0.8} radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// One coinbase per block says nothing about activity, so it is left out of the stack
+function TxTypeChart({ query, range }: { query: string; range: RangeKey | null }) {
+  const [data, setData] = useState<TxTypeSeries | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/core/tx-types?${query}&tz=${encodeURIComponent(BROWSER_TIME_ZONE)}`)
+      .then((r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.json();
+      })
+      .then(setData)
+      .catch(() => setData(null));
+  }, [query]);
+
+  const types = useMemo(
+    () =>
+      (Object.keys(data?.totals ?? {}) as CoreTxType[])
+        .filter((t) => t !== "coinbase")
+        .sort((a, b) => (data?.totals[b] ?? 0) - (data?.totals[a] ?? 0)),
+    [data],
+  );
+
+  const chartData = useMemo(
+    () =>
+      (data?.series ?? []).map((p) => ({
+        label: tickLabel(new Date(p.t), range, data!.window.bucket, data!.window.tz),
+        ...Object.fromEntries(types.map((t) => [t, p.counts[t] ?? 0])),
+        assetLocked: p.assetLocked,
+      })),
+    [data, types, range],
+  );
+
+  if (!data || (!data.enabled && data.blocks.counted === 0)) return null;
+
+  const specialCount = types
+    .filter((t) => t !== "classic" && t !== "coinjoin")
+    .reduce((sum, t) => sum + (data.totals[t] ?? 0), 0);
+
+  return (
+    <Card className="glass noise mt-6 overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-tx-types">
+      <div className="p-5 sm:p-6">
+        <div className="flex items-center gap-3">
+          <Activity className="h-5 w-5 text-[hsl(var(--chart-2))]" />
+          <h2 className="font-serif text-lg tracking-tight sm:text-xl">Transaction Types</h2>
+        </div>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Core transactions per bucket by type, with the DASH locked into Platform credits
+        </p>
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-asset-locked">
+            Into Platform: {formatDash(data.assetLocked)}
+          </Badge>
+          <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-asset-unlocked">
+            Out of Platform: {formatDash(data.assetUnlocked)}
+          </Badge>
+          <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-special-txs">
+            {specialCount.toLocaleString()} special txs
+          </Badge>
+          {data.blocks.cached > 0 && data.blocks.counted < data.blocks.cached && (
+            <Badge
+              variant="secondary"
+              className="rounded-full border border-amber-400/30 bg-amber-400/10 text-amber-200"
+              title="Older blocks are counted in the background"
+              data-testid="badge-tx-types-coverage"
+            >
+              {data.blocks.counted.toLocaleString()} of {data.blocks.cached.toLocaleString()} blocks counted
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="h-[280px] w-full px-2 pb-4 sm:px-4" data-testid="chart-tx-types">
+        {chartData.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            No transaction types counted for this window yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 16, left: 6, bottom: 0 }}>
+              <CartesianGrid stroke="hsl(var(--border) / 0.6)" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                interval="preserveStartEnd"
+                minTickGap={24}
+              />
+              <YAxis
+                yAxisId="left"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                width={50}
+                tickFormatter={(v) => Number(v).toLocaleString()}
+              />
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                width={60}
+                tickFormatter={(v) => formatDashCompact(Number(v))}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: "hsl(var(--popover) / 0.92)",
+                  border: "1px solid hsl(var(--border) / 0.7)",
+                  borderRadius: 16,
+                  backdropFilter: "blur(10px)",
+                  color: "hsl(var(--foreground))",
+                }}
+                labelStyle={{ color: "hsl(var(--muted-foreground))" }}
+                formatter={(value: unknown, name: string, item: any) =>
+                  item?.dataKey === "assetLocked"
+                    ? [formatDash(Number(value)), name]
+                    : [Number(value).toLocaleString(), name]
+                }
+              />
+              {types.map((t) => (
+                <Area
+                  key={t}
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey={t}
+                  name={TX_TYPE_LABELS[t]}
+                  stackId="types"
+                  stroke={TX_TYPE_COLORS[t]}
+                  fill={TX_TYPE_COLORS[t]}
+                  fillOpacity={0.35}
+                  strokeWidth={1.5}
+                />
+              ))}
+              <Line
+                yAxisId="right"
+                type="monotone"
+                dataKey="assetLocked"
+                name="Locked into Platform (DASH)"
+                stroke={TX_TYPE_COLORS["asset-lock"]}
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              <Legend
+                verticalAlign="top"
+                height={28}
+                formatter={(value: string) => <span className="text-xs text-muted-foreground">{value}</span>}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+function TreasuryPanel({ data, dashPrice, currency }: { data: TreasuryData | null; dashPrice: number; currency: string }) {
+  const chartData = useMemo(() => {
+    if (!data) return [];
+    return [...data.superblocks]
+      .sort((a, b) => a.height - b.height)
+      .map((sb) => ({
+        label: new Date(sb.time * 1000).toLocaleDateString([], { year: "numeric", month: "short" }),
+        paid: sb.paid,
+        unallocated: Math.max(0, sb.available - sb.paid),
+        height: sb.height,
+        payees: sb.payouts.length,
+      }));
+  }, [data]);
+
+  if (!data) return null;
+
+  const latest = data.superblocks[0];
+  const totalPaid = data.superblocks.reduce((s, sb) => s + sb.paid, 0);
+  const totalAvailable = data.superblocks.reduce((s, sb) => s + sb.available, 0);
+
+  return (
+    <Card className="glass noise overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-treasury">
+      <div className="p-5 sm:p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-3">
+              <Landmark className="h-5 w-5 text-[hsl(var(--chart-4))]" />
+              <h2 className="font-serif text-lg tracking-tight sm:text-xl">Treasury Payouts</h2>
+            </div>
+            <p className="mt-1 text-sm text-muted-foreground">
+              DAO budget paid out in each superblock versus the budget available
+            </p>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <Badge
+                variant="secondary"
+                className="rounded-full border border-white/10 bg-white/5"
+                data-testid="badge-treasury-paid"
+              >
+                Paid: {formatDash(totalPaid)}
+                {dashPrice ? ` · ${formatQuote(totalPaid * dashPrice, currency)}` : ""}
+              </Badge>
+              <Badge
+                variant="secondary"
+                className="rounded-full border border-white/10 bg-white/5"
+                data-testid="badge-treasury-utilisation"
+              >
+                {totalAvailable > 0 ? `${((totalPaid / totalAvailable) * 100).toFixed(1)}% of budget used` : "No superblocks cached"}
+              </Badge>
+              {latest && (
+                <Badge
+                  variant="secondary"
+                  className="rounded-full border border-white/10 bg-white/5"
+                  data-testid="badge-treasury-latest"
+                >
+                  Last superblock #{latest.height.toLocaleString()} · {latest.payouts.length} payees
+                </Badge>
+              )}
+              {data.nextSuperblock && (
+                <Badge
+                  variant="secondary"
+                  className="rounded-full border border-[hsl(var(--chart-4)/0.3)] bg-[hsl(var(--chart-4)/0.08)]"
+                  data-testid="badge-treasury-next"
+                >
+                  Next: #{data.nextSuperblock.height.toLocaleString()} in{" "}
+                  {formatDistanceToNowStrict(data.nextSuperblock.estimatedTime * 1000)} · {formatDash(data.nextSuperblock.available)}
+                </Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="h-[260px] w-full px-2 pb-4 sm:px-4" data-testid="chart-treasury">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 10, right: 16, left: 6, bottom: 0 }}>
+            <CartesianGrid stroke="hsl(var(--border) / 0.6)" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="label"
+              tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+              axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+            />
+            <YAxis
+              tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+              axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              width={60}
+              tickFormatter={(v) => formatDashCompact(Number(v))}
+            />
+            <Tooltip
+              cursor={{ fill: "hsl(var(--border) / 0.2)" }}
+              contentStyle={{
+                background: "hsl(var(--popover) / 0.92)",
+                border: "1px solid hsl(var(--border) / 0.7)",
+                borderRadius: 16,
+                backdropFilter: "blur(10px)",
+                color: "hsl(var(--foreground))",
+              }}
+              labelStyle={{ color: "hsl(var(--muted-foreground))" }}
+              labelFormatter={(label: string, payload: any[]) => {
+                const height = payload?.[0]?.payload?.height;
+                return height != null ? `${label} — Superblock ${height.toLocaleString()}` : label;
+              }}
+              formatter={(value: unknown, name: string) => {
+                const label = name === "paid" ? "Paid to proposals" : "Unallocated budget";
+                return [formatDash(Number(value)), label];
+              }}
+            />
+            <Bar dataKey="paid" stackId="budget" fill="hsl(var(--chart-4))" fillOpacity={0.8} name="paid" />
+            <Bar dataKey="unallocated" stackId="budget" fill="hsl(var(--chart-4))" fillOpacity={0.2} radius={[6, 6, 0, 0]} name="unallocated" />
+            <Legend
+              verticalAlign="top"
+              height={28}
+              formatter={(value: string) => (
+                <span className="text-xs text-muted-foreground">
+                  {value === "paid" ? "Paid to proposals" : "Unallocated budget"}
+                </span>
+              )}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+}
+
 export default function DashPlatformStats() {
-  const [range, setRange] = useState<RangeKey>("month");
+  const [initialUrlState] = useState(readUrlState);
+  const [range, setRange] = useState<RangeKey>(initialUrlState.range);
+  const [customWindow, setCustomWindow] = useState<DateWindow | null>(initialUrlState.customWindow);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showCoreRewards, setShowCoreRewards] = useState(false);
   const [showPlatformHeld, setShowPlatformHeld] = useState(false);
+  const [valuation, setValuation] = useState<Valuation>(initialUrlState.valuation);
+  const [currencyChoice, setCurrencyChoice] = useState(initialUrlState.currency);
+  const [compare, setCompare] = useState(initialUrlState.compare);
+  const [currencies, setCurrencies] = useState<QuoteCurrencyOption[]>([]);
   const [data, setData] = useState<DashboardData | null>(null);
   const [sankeyData, setSankeyData] = useState<SankeyData | null>(null);
+  const [sources, setSources] = useState<BlockSourceStatus[]>([]);
+  const [treasuryData, setTreasuryData] = useState<TreasuryData | null>(null);
+  const [coreStats, setCoreStats] = useState<CoreFeeStats | null>(null);
+  const [platformStats, setPlatformStats] = useState<PlatformFeeStats | null>(null);
   const [updatedAt, setUpdatedAt] = useState(Date.now());
   const [error, setError] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState(false);
 
   useEffect(() => {
-    fetch("/api/sankey")
+    fetch(`/api/sankey?valuation=${valuation}&currency=${currencyChoice}`)
       .then((r) => r.json())
       .then(setSankeyData)
       .catch(() => {});
+  }, [valuation, currencyChoice]);
+
+  useEffect(() => {
+    fetch("/api/currencies")
+      .then((r) => r.json())
+      .then(setCurrencies)
+      .catch(() => {});
   }, []);
 
-  const fetchDashboard = useCallback(async (r: RangeKey, isRefresh = false) => {
+  useEffect(() => {
+    fetch("/api/treasury/superblocks")
+      .then((r) => r.json())
+      .then(setTreasuryData)
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const loadSources = () =>
+      fetch("/api/sources")
+        .then((r) => r.json())
+        .then(setSources)
+        .catch(() => {});
+    loadSources();
+    const id = setInterval(loadSources, 60_000);
+    return () => clearInterval(id);
+  }, []);
+
+  const fetchDashboard = useCallback(async (w: string, v: Valuation, c: string, cmp: boolean, isRefresh = false) => {
     if (isRefresh) setRefreshing(true);
     else setLoading(true);
     setError(null);
 
     try {
-      const res = await fetch(`/api/dashboard?range=${r}`);
+      const res = await fetch(
+        `/api/dashboard?${w}&valuation=${v}&currency=${c}&tz=${encodeURIComponent(BROWSER_TIME_ZONE)}` +
+          (cmp ? "&compare=previous" : ""),
+      );
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       const json = await res.json();
       setData(json);
@@ -869,19 +2257,96 @@ export default function DashPlatformStats() {
     }
   }, []);
 
+  const query = windowQuery(range, customWindow);
+
   useEffect(() => {
-    fetchDashboard(range);
-  }, [range, fetchDashboard]);
+    fetchDashboard(query, valuation, currencyChoice, compare);
+  }, [query, valuation, currencyChoice, compare, fetchDashboard]);
 
   useEffect(() => {
-    const id = setInterval(() => fetchDashboard(range, true), 60_000);
+    const id = setInterval(
+      () => fetchDashboard(query, valuation, currencyChoice, compare, true),
+      streaming ? STREAM_REFRESH_MS : POLL_MS,
+    );
     return () => clearInterval(id);
-  }, [range, fetchDashboard]);
+  }, [query, valuation, currencyChoice, compare, fetchDashboard, streaming]);
+
+  const refreshRef = useRef(() => {});
+  refreshRef.current = () => fetchDashboard(query, valuation, currencyChoice, compare, true);
+
+  useEffect(() => {
+    const source = new EventSource("/api/stream");
+    let dropped = false;
+    const apply = (update: (d: DashboardData) => DashboardData) => {
+      setData((d) => (d ? update(d) : d));
+      setUpdatedAt(Date.now());
+    };
+
+    source.onopen = () => {
+      setStreaming(true);
+      // Anything published while disconnected was missed
+      if (dropped) refreshRef.current();
+    };
+    // EventSource reconnects by itself; polling covers the gap
+    source.onerror = () => {
+      dropped = true;
+      setStreaming(false);
+    };
+    source.addEventListener("new-block", (e) => {
+      const { block } = JSON.parse(e.data) as { block: LiveBlock };
+      apply((d) => applyNewBlock(d, block));
+    });
+    source.addEventListener("new-epoch", (e) => {
+      const { epoch } = JSON.parse(e.data) as { epoch: LiveEpoch };
+      apply((d) => applyEpoch(d, epoch));
+    });
+    source.addEventListener("price-update", (e) => {
+      const { usd } = JSON.parse(e.data) as { usd: number };
+      apply((d) => applyPrice(d, usd));
+    });
+    source.addEventListener("backfill-progress", (e) => {
+      const { progress } = JSON.parse(e.data) as { progress: BackfillProgress };
+      setData((d) => (d ? { ...d, backfillProgress: progress } : d));
+      // The backfilled blocks only show up in the series with a full fetch
+      if (progress.status === "complete") refreshRef.current();
+    });
+    return () => source.close();
+  }, []);
+
+  useEffect(() => {
+    const params = `${query}&tz=${encodeURIComponent(BROWSER_TIME_ZONE)}`;
+    const load = <T,>(url: string, set: (v: T | null) => void) =>
+      fetch(url)
+        .then((r) => {
+          if (!r.ok) throw new Error(`HTTP ${r.status}`);
+          return r.json();
+        })
+        .then(set)
+        .catch(() => set(null));
+    load<CoreFeeStats>(`/api/core/fees/stats?${params}`, setCoreStats);
+    load<PlatformFeeStats>(`/api/platform/fees/stats?${params}`, setPlatformStats);
+  }, [query]);
+
+  useEffect(() => {
+    writeUrlState(range, customWindow, valuation, currencyChoice, compare);
+  }, [range, customWindow, valuation, currencyChoice, compare]);
+
+  const handleRangeChange = useCallback((r: RangeKey) => {
+    setCustomWindow(null);
+    setRange(r);
+  }, []);
 
-  const handleRangeChange = useCallback((r: RangeKey) => setRange(r), []);
+  const activeRange = customWindow ? null : range;
+  const bucket = data?.window?.bucket ?? "day";
+  const bucketTimeZone = data?.window?.tz ?? BROWSER_TIME_ZONE;
 
   const totals = data?.totals;
-  const dashPrice = data?.dashPriceUsd || 0;
+  const totalsQuote = data?.totalsQuote;
+  const dashPrice = data?.dashPrice || 0;
+  // The server falls back to USD when a quote is unavailable, so label with what it used
+  const currency = data?.currency || "USD";
+  const comparison = data?.comparison ?? null;
+  const deltas = comparison?.deltas;
 
   return (
     <div className="min-h-dvh grid-glow">
@@ -911,6 +2376,24 @@ export default function DashPlatformStats() {
           </div>
 
           <div className="flex items-center gap-2">
+            <Link href="/masternode" data-testid="link-masternode">
+              <Button
+                variant="secondary"
+                className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+              >
+                <Search className="mr-2 h-4 w-4" />
+                My Masternode
+              </Button>
+            </Link>
+            <Link href="/governance" data-testid="link-governance">
+              <Button
+                variant="secondary"
+                className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+              >
+                <Vote className="mr-2 h-4 w-4" />
+                Governance
+              </Button>
+            </Link>
             <a href="https://www.dashmarket.net" target="_blank" rel="noopener noreferrer" data-testid="link-dash-merch">
               <Button
                 variant="secondary"
@@ -932,7 +2415,7 @@ export default function DashPlatformStats() {
             <Button
               variant="secondary"
               className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
-              onClick={() => fetchDashboard(range, true)}
+              onClick={() => fetchDashboard(query, valuation, currencyChoice, compare, true)}
               disabled={refreshing}
               data-testid="button-refresh"
             >
@@ -952,41 +2435,45 @@ export default function DashPlatformStats() {
           <StatTile
             title="Total Dash Core Fees"
             value={totals ? formatDash(totals.totalCoreFees) : "Loading..."}
-            usdValue={totals && dashPrice ? formatUsd(totals.totalCoreFees * dashPrice) : undefined}
-            hint={`Window: ${RANGES.find((r) => r.key === range)?.label}`}
+            quoteValue={totalsQuote && dashPrice ? formatQuote(totalsQuote.totalCoreFees, currency) : undefined}
+            hint={`Window: ${windowLabel(range, customWindow)}`}
             icon={<Coins className="h-5 w-5" />}
             tone="core"
             testId="tile-total-core"
+            change={deltas?.totalCoreFees}
             logo={dashLogo}
           />
           <StatTile
             title="Fee Payout Per Masternode"
             value={totals ? formatDash(totals.payoutPerMasternode) : "Loading..."}
-            usdValue={totals && dashPrice ? formatUsd(totals.payoutPerMasternode * dashPrice) : undefined}
-            hint={`Core fees / ${totals?.totalMasternodes?.toLocaleString() || "..."} total masternodes`}
+            quoteValue={totalsQuote && dashPrice ? formatQuote(totalsQuote.payoutPerMasternode, currency) : undefined}
+            hint={`Core fees / masternodes active per bucket (${totals?.totalMasternodes?.toLocaleString() || "..."} today)`}
             icon={<CircleDot className="h-5 w-5" />}
             tone="core"
             testId="tile-payout-mn"
+            change={deltas?.payoutPerMasternode}
             logo={dashLogo}
           />
           <StatTile
             title="Total Dash Platform Fees"
             value={totals ? formatDash(totals.totalPlatformFeesDash) : "Loading..."}
-            usdValue={totals && dashPrice ? formatUsd(totals.totalPlatformFeesDash * dashPrice) : undefined}
-            hint={`Window: ${RANGES.find((r) => r.key === range)?.label}`}
+            quoteValue={totalsQuote && dashPrice ? formatQuote(totalsQuote.totalPlatformFeesDash, currency) : undefined}
+            hint={`Window: ${windowLabel(range, customWindow)}`}
             icon={<DatabaseZap className="h-5 w-5" />}
             tone="platform"
             testId="tile-total-platform"
+            change={deltas?.totalPlatformFeesDash}
             logo={dashEvoLogo}
           />
           <StatTile
             title="Fee Payout Per Evo Node"
             value={totals ? formatDash(totals.payoutPerEvo) : "Loading..."}
-            usdValue={totals && dashPrice ? formatUsd(totals.payoutPerEvo * dashPrice) : undefined}
-            hint={`Core fees / ${totals?.totalMasternodes?.toLocaleString() || "..."} all MNs + platform fees / ${totals?.evoCount?.toLocaleString() || "..."} EVO nodes`}
+            quoteValue={totalsQuote && dashPrice ? formatQuote(totalsQuote.payoutPerEvo, currency) : undefined}
+            hint={`Core fees per MN + platform fees / EVO nodes active per epoch (${totals?.evoCount?.toLocaleString() || "..."} today)`}
             icon={<CircleDot className="h-5 w-5" />}
             tone="platform"
             testId="tile-payout-evo"
+            change={deltas?.payoutPerEvo}
             logo={dashEvoLogo}
           />
         </div>
@@ -1028,40 +2515,104 @@ export default function DashPlatformStats() {
                 )}
                 {showPlatformHeld ? "Platform: Show Held" : "Platform: Fees Only"}
               </button>
+              <button
+                className="inline-flex items-center gap-1.5 rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs text-muted-foreground transition-colors hover:bg-white/10"
+                onClick={() => setValuation((v) => (v === "now" ? "at-time" : "now"))}
+                title="Value fiat totals at today's price or at the price when each block was mined"
+                data-testid="toggle-valuation"
+              >
+                {valuation === "at-time" ? (
+                  <ToggleRight className="h-4 w-4 text-[hsl(var(--chart-2))]" />
+                ) : (
+                  <ToggleLeft className="h-4 w-4" />
+                )}
+                {valuation === "at-time" ? `${currency}: Valued at Time` : `${currency}: Valued Now`}
+              </button>
+              <button
+                className="inline-flex items-center gap-1.5 rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs text-muted-foreground transition-colors hover:bg-white/10"
+                onClick={() => setCompare((v) => !v)}
+                title="Overlay the preceding window of the same length and show changes against it"
+                data-testid="toggle-compare"
+              >
+                {compare ? (
+                  <ToggleRight className="h-4 w-4 text-[hsl(var(--chart-3))]" />
+                ) : (
+                  <ToggleLeft className="h-4 w-4" />
+                )}
+                {compare ? "Compare: Previous Period" : "Compare: Off"}
+              </button>
               {refreshing ? (
                 <span className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs text-muted-foreground" data-testid="status-syncing">
                   <CircleDot className="h-4 w-4 animate-pulse" />
                   Syncing
                 </span>
-              ) : (
+              ) : streaming ? (
                 <span className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs text-muted-foreground" data-testid="status-live">
                   <Activity className="h-4 w-4" />
                   Live
                 </span>
+              ) : (
+                <span
+                  className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs text-muted-foreground"
+                  title="The live stream is disconnected; refreshing every minute"
+                  data-testid="status-polling"
+                >
+                  <RefreshCcw className="h-4 w-4" />
+                  Polling
+                </span>
               )}
-              <RangeMenu value={range} onChange={handleRangeChange} testId="select-range-global" />
+              <RangeMenu value={activeRange} onChange={handleRangeChange} testId="select-range-global" />
+              <DateRangePicker value={customWindow} onChange={setCustomWindow} testId="select-dates" />
+              <CurrencyMenu
+                value={currencyChoice}
+                options={currencies.length > 0 ? currencies : [{ code: "USD", dashPrice: data?.dashPriceUsd ?? null }]}
+                onChange={setCurrencyChoice}
+                testId="select-currency"
+              />
             </div>
 
             <div className="grid gap-5 lg:grid-cols-2">
               <CoreFeesChart
                 series={data?.coreFeeSeries || []}
-                range={range}
+                coverage={data?.coreCoverage}
+                backfill={data?.backfillProgress}
+                range={activeRange}
+                bucket={bucket}
+                timeZone={bucketTimeZone}
                 showRewards={showCoreRewards}
                 updatedAt={updatedAt}
+                stats={coreStats}
+                previousSeries={comparison?.coreFeeSeries}
+                exportQuery={query}
               />
               <PlatformFeesChart
                 series={data?.platformFeeSeries || []}
                 totalCreditsOnPlatformDash={data?.totals?.totalCreditsOnPlatformDash || 0}
-                range={range}
+                range={activeRange}
                 showRewards={showPlatformHeld}
                 updatedAt={updatedAt}
+                stats={platformStats}
+                previousSeries={comparison?.platformFeeSeries}
+                exportQuery={query}
               />
             </div>
 
+            <div className="mt-6">
+              <NodeCountChart series={data?.nodeCountSeries || []} range={activeRange} bucket={bucket} timeZone={bucketTimeZone} />
+            </div>
+
+            <TxTypeChart query={query} range={activeRange} />
+
+            <FeeRateHistogram query={query} />
+
             <div className="mt-6">
               <RewardFlowSankey data={sankeyData} />
             </div>
 
+            <div className="mt-6">
+              <TreasuryPanel data={treasuryData} dashPrice={dashPrice} currency={currency} />
+            </div>
+
             <div className="mt-6 grid gap-4 lg:grid-cols-3">
               <Card className="glass noise rounded-3xl border-white/10 bg-transparent" data-testid="card-network">
                 <div className="p-5 sm:p-6">
@@ -1099,9 +2650,9 @@ export default function DashPlatformStats() {
                 <div className="p-5 sm:p-6">
                   <h3 className="font-serif text-lg tracking-tight" data-testid="text-formulas-title">Payout Estimates</h3>
                   <p className="mt-2 text-sm text-muted-foreground" data-testid="text-formulas-body">
-                    <span className="text-foreground/90">Per masternode</span> = core fees / {totals?.totalMasternodes?.toLocaleString() || "..."} total masternodes (regular + EVO)
+                    <span className="text-foreground/90">Per masternode</span> = sum over each bucket of core fees / masternodes enabled at the time ({totals?.totalMasternodes?.toLocaleString() || "..."} today, regular + EVO)
                     <br /><br />
-                    <span className="text-foreground/90">Per EVO node</span> = core fees per MN + platform fees / {totals?.evoCount?.toLocaleString() || "..."} EVO nodes
+                    <span className="text-foreground/90">Per EVO node</span> = core fees per MN + sum over each epoch of platform fees / EVO nodes enabled at the time ({totals?.evoCount?.toLocaleString() || "..."} today)
                   </p>
                 </div>
               </Card>
@@ -1110,10 +2661,36 @@ export default function DashPlatformStats() {
                 <div className="p-5 sm:p-6">
                   <h3 className="font-serif text-lg tracking-tight" data-testid="text-status-title">Data Sources</h3>
                   <div className="mt-3 space-y-2 text-sm text-muted-foreground">
-                    <div className="flex items-center justify-between gap-3">
-                      <span>Core Chain</span>
-                      <span className="font-mono text-foreground/90">BlockCypher API</span>
-                    </div>
+                    {sources.length === 0 ? (
+                      <div className="flex items-center justify-between gap-3">
+                        <span>Core Chain</span>
+                        <span className="font-mono text-foreground/90">—</span>
+                      </div>
+                    ) : (
+                      sources.map((source) => (
+                        <div
+                          key={source.name}
+                          className="flex items-center justify-between gap-3"
+                          title={source.lastError ? `Last error: ${source.lastError}` : undefined}
+                          data-testid={`row-source-${source.name}`}
+                        >
+                          <span className="flex items-center gap-2">
+                            <span className={`h-1.5 w-1.5 rounded-full ${sourceStatusDot(source)}`} />
+                            {source.label}
+                            {source.active && (
+                              <span className="text-[10px] uppercase tracking-wide text-[hsl(var(--primary))]">active</span>
+                            )}
+                          </span>
+                          <span className="font-mono text-foreground/90">
+                            {!source.configured
+                              ? "not configured"
+                              : source.successRate == null
+                                ? "idle"
+                                : `${(source.successRate * 100).toFixed(0)}% · ${source.avgLatencyMs ?? "—"}ms`}
+                          </span>
+                        </div>
+                      ))
+                    )}
                     <div className="flex items-center justify-between gap-3">
                       <span>Platform Chain</span>
                       <span className="font-mono text-foreground/90">Platform Explorer</span>
@@ -1174,7 +2751,9 @@ export default function DashPlatformStats() {
               </a>
             </div>
             <p className="mt-1 text-[10px] text-muted-foreground/60" data-testid="text-footer-hint">
-              Data refreshes automatically every 60 seconds.
+              {streaming
+                ? `Live: new blocks, epochs and prices appear as they arrive; everything else refreshes every ${STREAM_REFRESH_MS / 60_000} minutes.`
+                : `Data refreshes automatically every ${POLL_MS / 1000} seconds.`}
             </p>
           </div>
         </footer>
@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import dashLogo from "@assets/dash_logo_2018_rgb_for_screens_1770933767158.png";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft, ExternalLink, RefreshCcw, Vote } from "lucide-react";
+import { formatDistanceToNowStrict } from "date-fns";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatDash } from "@/lib/format";
+
+interface Proposal {
+  hash: string;
+  name: string;
+  url: string | null;
+  paymentAddress: string | null;
+  paymentAmount: number;
+  startEpoch: number | null;
+  endEpoch: number | null;
+  createdAt: number | null;
+  yesCount: number;
+  noCount: number;
+  abstainCount: number;
+  absoluteYesCount: number;
+  voterCount: number;
+  cachedFunding: boolean;
+  active: boolean;
+  updatedAt: number;
+  passing: boolean;
+  votesNeeded: number;
+}
+
+interface ProposalsData {
+  weightedMasternodes: number;
+  threshold: number;
+  proposals: Proposal[];
+}
+
+interface VoteHistory {
+  proposal: Proposal;
+  threshold: number;
+  snapshots: Array<{
+    takenAt: number;
+    yesCount: number;
+    noCount: number;
+    abstainCount: number;
+    absoluteYesCount: number;
+  }>;
+}
+
+function VoteProgress({ proposal, threshold }: { proposal: Proposal; threshold: number }) {
+  const scale = Math.max(threshold * 1.5, proposal.absoluteYesCount, 1);
+  const pct = Math.max(0, Math.min(100, (proposal.absoluteYesCount / scale) * 100));
+  const thresholdPct = Math.min(100, (threshold / scale) * 100);
+
+  return (
+    <div className="relative h-2 w-full overflow-hidden rounded-full bg-white/10">
+      <div
+        className={"h-full rounded-full " + (proposal.passing ? "bg-emerald-400" : "bg-[hsl(var(--chart-4))]")}
+        style={{ width: `${pct}%` }}
+      />
+      <div className="absolute top-0 h-full w-0.5 bg-white/70" style={{ left: `${thresholdPct}%` }} />
+    </div>
+  );
+}
+
+function VoteHistoryChart({ history }: { history: VoteHistory | null }) {
+  const chartData = useMemo(() => {
+    if (!history) return [];
+    return history.snapshots.map((s) => ({
+      t: s.takenAt,
+      label: new Date(s.takenAt).toLocaleDateString([], { month: "short", day: "numeric" }),
+      yes: s.yesCount,
+      no: s.noCount,
+      abstain: s.abstainCount,
+      net: s.absoluteYesCount,
+    }));
+  }, [history]);
+
+  if (!history) return null;
+
+  return (
+    <Card className="glass noise overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-vote-history">
+      <div className="p-5 sm:p-6">
+        <h2 className="font-serif text-lg tracking-tight sm:text-xl">{history.proposal.name}</h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Funding votes over time · passing line at {history.threshold.toLocaleString()} net yes votes
+        </p>
+      </div>
+      <div className="h-[300px] w-full px-2 pb-4 sm:px-4" data-testid="chart-vote-history">
+        {chartData.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            No vote snapshots recorded yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 10, right: 16, left: 6, bottom: 0 }}>
+              <CartesianGrid stroke="hsl(var(--border) / 0.6)" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                minTickGap={24}
+              />
+              <YAxis
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+                width={50}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: "hsl(var(--popover) / 0.92)",
+                  border: "1px solid hsl(var(--border) / 0.7)",
+                  borderRadius: 16,
+                  backdropFilter: "blur(10px)",
+                  color: "hsl(var(--foreground))",
+                }}
+                labelStyle={{ color: "hsl(var(--muted-foreground))" }}
+                labelFormatter={(_label: string, payload: any[]) => {
+                  const t = payload?.[0]?.payload?.t;
+                  return t ? new Date(t).toLocaleString() : "";
+                }}
+              />
+              <ReferenceLine
+                y={history.threshold}
+                stroke="hsl(var(--foreground) / 0.6)"
+                strokeDasharray="4 4"
+                label={{ value: "Threshold", fill: "hsl(var(--muted-foreground))", fontSize: 11, position: "insideTopLeft" }}
+              />
+              <Line type="monotone" dataKey="net" name="Net yes" stroke="hsl(var(--chart-4))" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="yes" name="Yes" stroke="#34d399" strokeWidth={1.5} dot={false} />
+              <Line type="monotone" dataKey="no" name="No" stroke="#f87171" strokeWidth={1.5} dot={false} />
+              <Line type="monotone" dataKey="abstain" name="Abstain" stroke="hsl(var(--muted-foreground))" strokeWidth={1.5} dot={false} />
+              <Legend
+                verticalAlign="top"
+                height={28}
+                formatter={(value: string) => <span className="text-xs text-muted-foreground">{value}</span>}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+export default function Governance() {
+  const [data, setData] = useState<ProposalsData | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [history, setHistory] = useState<VoteHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/governance/proposals")
+      .then((r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.json();
+      })
+      .then((json: ProposalsData) => {
+        setData(json);
+        if (json.proposals.length > 0) setSelected(json.proposals[0].hash);
+      })
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    fetch(`/api/governance/proposals/${selected}/votes`)
+      .then((r) => r.json())
+      .then(setHistory)
+      .catch(() => {});
+  }, [selected]);
+
+  const passingCount = data?.proposals.filter((p) => p.passing).length || 0;
+  const passingBudget = data?.proposals.filter((p) => p.passing).reduce((s, p) => s + p.paymentAmount, 0) || 0;
+
+  return (
+    <div className="min-h-dvh grid-glow">
+      <header className="mx-auto w-full max-w-[90rem] px-4 pb-5 pt-10 sm:px-6 sm:pb-7 sm:pt-14 lg:px-10">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="flex items-center gap-3 font-serif text-3xl font-light leading-[1.05] tracking-tight sm:text-5xl" data-testid="text-title">
+              <img src={dashLogo} alt="Dash" className="h-8 w-auto sm:h-11" />
+              <span className="text-gradient">Governance</span>
+            </h1>
+            <p className="mt-3 max-w-2xl text-sm text-muted-foreground sm:text-base">
+              Active treasury proposals and how their funding votes are trending.
+            </p>
+          </div>
+          <Link href="/" data-testid="link-dashboard">
+            <Button
+              variant="secondary"
+              className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </Link>
+        </div>
+
+        {data && (
+          <div className="mt-6 flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-threshold">
+              Passing threshold: {data.threshold.toLocaleString()} net yes votes ({data.weightedMasternodes.toLocaleString()} weighted MNs / 10)
+            </Badge>
+            <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-passing">
+              {passingCount} of {data.proposals.length} passing · {formatDash(passingBudget)} per cycle
+            </Badge>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300" data-testid="text-error">
+            Failed to load proposals: {error}
+          </div>
+        )}
+      </header>
+
+      <main className="mx-auto grid w-full max-w-[90rem] gap-4 px-4 pb-16 sm:px-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)] lg:px-10">
+        {loading ? (
+          <div className="flex items-center justify-center py-20 lg:col-span-2" data-testid="loading-spinner">
+            <RefreshCcw className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col gap-3" data-testid="list-proposals">
+              {data?.proposals.length === 0 && (
+                <Card className="glass noise rounded-3xl border-white/10 bg-transparent p-6 text-sm text-muted-foreground">
+                  No active proposals. Governance data is collected from the configured Dash Core RPC node.
+                </Card>
+              )}
+              {data?.proposals.map((p) => (
+                <Card
+                  key={p.hash}
+                  className={
+                    "glass noise cursor-pointer rounded-3xl bg-transparent p-4 transition-colors hover:bg-white/5 " +
+                    (selected === p.hash ? "border-[hsl(var(--chart-4)/0.5)]" : "border-white/10")
+                  }
+                  onClick={() => setSelected(p.hash)}
+                  data-testid={`card-proposal-${p.hash}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Vote className="h-4 w-4 shrink-0 text-[hsl(var(--chart-4))]" />
+                        <span className="truncate font-medium">{p.name}</span>
+                        {p.url && (
+                          <a href={p.url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+                            <ExternalLink className="h-3.5 w-3.5 text-muted-foreground" />
+                          </a>
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {formatDash(p.paymentAmount)} per cycle
+                        {p.endEpoch ? ` · ends in ${formatDistanceToNowStrict(p.endEpoch * 1000)}` : ""}
+                      </p>
+                    </div>
+                    <Badge
+                      variant="secondary"
+                      className={
+                        "shrink-0 rounded-full border " +
+                        (p.passing ? "border-emerald-400/30 bg-emerald-400/10 text-emerald-300" : "border-white/10 bg-white/5")
+                      }
+                    >
+                      {p.passing ? "Passing" : `${p.votesNeeded.toLocaleString()} short`}
+                    </Badge>
+                  </div>
+                  <div className="mt-3">
+                    <VoteProgress proposal={p} threshold={data.threshold} />
+                  </div>
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Yes {p.yesCount.toLocaleString()} · No {p.noCount.toLocaleString()} · Abstain {p.abstainCount.toLocaleString()} · Net {p.absoluteYesCount.toLocaleString()}
+                  </p>
+                </Card>
+              ))}
+            </div>
+            <div>
+              <VoteHistoryChart history={history} />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
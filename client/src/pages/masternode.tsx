@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import dashLogo from "@assets/dash_logo_2018_rgb_for_screens_1770933767158.png";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft, RefreshCcw, Search } from "lucide-react";
+import { formatDistanceStrict } from "date-fns";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { formatDash, formatDashCompact, formatUsd } from "@/lib/format";
+
+interface PayoutData {
+  proTxHash: string | null;
+  type: "regular" | "evo" | null;
+  payoutAddresses: string[];
+  registeredHeight: number | null;
+  lastPaidHeight: number | null;
+  poseBanHeight: number | null;
+  payments: Array<{
+    height: number;
+    blockHash: string;
+    time: number;
+    payee: string;
+    amount: number;
+    cumulative: number;
+  }>;
+  totals: { count: number; dash: number; usd: number };
+  interval: {
+    expectedBlocks: number;
+    expectedSeconds: number;
+    expectedPaymentDash: number;
+    actualBlocks: number | null;
+    actualSeconds: number | null;
+    averagePaymentDash: number | null;
+  };
+  scannedFromHeight: number | null;
+  scannedToHeight: number | null;
+  dashPriceUsd: number;
+}
+
+function formatDuration(seconds: number) {
+  return formatDistanceStrict(0, seconds * 1000);
+}
+
+function SummaryTile({ title, value, hint, testId }: { title: string; value: string; hint?: string; testId: string }) {
+  return (
+    <Card className="glass noise rounded-3xl border-white/10 bg-transparent p-5" data-testid={testId}>
+      <p className="text-xs uppercase tracking-wide text-muted-foreground">{title}</p>
+      <p className="mt-2 font-mono text-2xl text-foreground/90">{value}</p>
+      {hint && <p className="mt-1 text-xs text-muted-foreground">{hint}</p>}
+    </Card>
+  );
+}
+
+function EarningsChart({ payments }: { payments: PayoutData["payments"] }) {
+  const chartData = useMemo(
+    () =>
+      payments.map((p) => ({
+        label: new Date(p.time * 1000).toLocaleDateString([], { month: "short", day: "numeric" }),
+        height: p.height,
+        cumulative: p.cumulative,
+      })),
+    [payments],
+  );
+
+  return (
+    <Card className="glass noise overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-earnings">
+      <div className="p-5 sm:p-6">
+        <h2 className="font-serif text-lg tracking-tight sm:text-xl">Cumulative Earnings</h2>
+        <p className="mt-1 text-sm text-muted-foreground">Masternode payments to these addresses found in cached coinbases</p>
+      </div>
+      <div className="h-[280px] w-full px-2 pb-4 sm:px-4" data-testid="chart-earnings">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 10, right: 16, left: 6, bottom: 0 }}>
+            <defs>
+              <linearGradient id="g-mn-earnings" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor="hsl(var(--chart-3))" stopOpacity={0.5} />
+                <stop offset="100%" stopColor="hsl(var(--chart-3))" stopOpacity={0.02} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid stroke="hsl(var(--border) / 0.6)" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="label"
+              tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+              axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              interval="preserveStartEnd"
+              minTickGap={24}
+            />
+            <YAxis
+              tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+              axisLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              tickLine={{ stroke: "hsl(var(--border) / 0.75)" }}
+              width={60}
+              tickFormatter={(v) => formatDashCompact(Number(v))}
+            />
+            <Tooltip
+              contentStyle={{
+                background: "hsl(var(--popover) / 0.92)",
+                border: "1px solid hsl(var(--border) / 0.7)",
+                borderRadius: 16,
+                backdropFilter: "blur(10px)",
+                color: "hsl(var(--foreground))",
+              }}
+              labelStyle={{ color: "hsl(var(--muted-foreground))" }}
+              labelFormatter={(label: string, payload: any[]) => {
+                const height = payload?.[0]?.payload?.height;
+                return height != null ? `${label} — Block ${height.toLocaleString()}` : label;
+              }}
+              formatter={(value: unknown) => [formatDash(Number(value)), "Earned"]}
+            />
+            <Area type="stepAfter" dataKey="cumulative" stroke="hsl(var(--chart-3))" strokeWidth={2} fill="url(#g-mn-earnings)" />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+}
+
+export default function MasternodeLookup() {
+  const [query, setQuery] = useState(() => new URLSearchParams(window.location.search).get("q") || "");
+  const [data, setData] = useState<PayoutData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookup = useCallback(async (q: string) => {
+    const trimmed = q.trim();
+    if (!trimmed) return;
+    setLoading(true);
+    setError(null);
+    window.history.replaceState(null, "", `?q=${encodeURIComponent(trimmed)}`);
+
+    try {
+      const res = await fetch(`/api/masternode/payouts?q=${encodeURIComponent(trimmed)}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setData(json);
+    } catch (err: any) {
+      setData(null);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (query) lookup(query);
+  }, []);
+
+  const recent = data ? [...data.payments].reverse().slice(0, 50) : [];
+  const interval = data?.interval;
+
+  return (
+    <div className="min-h-dvh grid-glow">
+      <header className="mx-auto w-full max-w-[90rem] px-4 pb-5 pt-10 sm:px-6 sm:pb-7 sm:pt-14 lg:px-10">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="flex items-center gap-3 font-serif text-3xl font-light leading-[1.05] tracking-tight sm:text-5xl" data-testid="text-title">
+              <img src={dashLogo} alt="Dash" className="h-8 w-auto sm:h-11" />
+              <span className="text-gradient">Masternode Payouts</span>
+            </h1>
+            <p className="mt-3 max-w-2xl text-sm text-muted-foreground sm:text-base">
+              Look up what a single masternode has actually been paid, by proTxHash or payout address.
+            </p>
+          </div>
+          <Link href="/" data-testid="link-dashboard">
+            <Button
+              variant="secondary"
+              className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </Link>
+        </div>
+
+        <form
+          className="mt-6 flex max-w-3xl gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookup(query);
+          }}
+        >
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="proTxHash or payout address"
+            className="h-10 rounded-full border-white/10 bg-white/5 font-mono text-sm"
+            data-testid="input-masternode-query"
+          />
+          <Button
+            type="submit"
+            variant="secondary"
+            className="h-10 rounded-full border border-white/10 bg-white/5 px-4 backdrop-blur"
+            disabled={loading}
+            data-testid="button-lookup"
+          >
+            {loading ? <RefreshCcw className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+            Look up
+          </Button>
+        </form>
+
+        {error && (
+          <div className="mt-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300" data-testid="text-error">
+            {error}
+          </div>
+        )}
+      </header>
+
+      {data && interval && (
+        <main className="mx-auto w-full max-w-[90rem] px-4 pb-16 sm:px-6 lg:px-10">
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            {data.type && (
+              <Badge variant="secondary" className="rounded-full border border-white/10 bg-white/5" data-testid="badge-node-type">
+                {data.type === "evo" ? "EVO node" : "Regular masternode"}
+              </Badge>
+            )}
+            {data.poseBanHeight && (
+              <Badge variant="secondary" className="rounded-full border border-red-400/30 bg-red-400/10" data-testid="badge-pose-banned">
+                PoSe-banned at #{data.poseBanHeight.toLocaleString()}
+              </Badge>
+            )}
+            {data.payoutAddresses.map((address) => (
+              <Badge key={address} variant="secondary" className="rounded-full border border-white/10 bg-white/5 font-mono">
+                {address}
+              </Badge>
+            ))}
+            {data.scannedFromHeight && data.scannedToHeight && (
+              <span className="text-xs text-muted-foreground" data-testid="text-scan-range">
+                Scanned blocks #{data.scannedFromHeight.toLocaleString()} – #{data.scannedToHeight.toLocaleString()}
+              </span>
+            )}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <SummaryTile
+              title="Total Earned"
+              value={formatDash(data.totals.dash)}
+              hint={data.dashPriceUsd ? formatUsd(data.totals.usd) : undefined}
+              testId="tile-total-earned"
+            />
+            <SummaryTile
+              title="Payments"
+              value={data.totals.count.toLocaleString()}
+              hint={interval.averagePaymentDash != null ? `${formatDash(interval.averagePaymentDash)} on average` : undefined}
+              testId="tile-payment-count"
+            />
+            <SummaryTile
+              title="Expected Interval"
+              value={formatDuration(interval.expectedSeconds)}
+              hint={`${interval.expectedBlocks.toLocaleString()} blocks · ${formatDash(interval.expectedPaymentDash)} per payment`}
+              testId="tile-expected-interval"
+            />
+            <SummaryTile
+              title="Actual Interval"
+              value={interval.actualSeconds != null ? formatDuration(interval.actualSeconds) : "—"}
+              hint={interval.actualBlocks != null ? `${Math.round(interval.actualBlocks).toLocaleString()} blocks on average` : "Needs two or more payments"}
+              testId="tile-actual-interval"
+            />
+          </div>
+
+          <div className="mt-6">
+            <EarningsChart payments={data.payments} />
+          </div>
+
+          <Card className="glass noise mt-6 overflow-hidden rounded-3xl border-white/10 bg-transparent" data-testid="card-payments">
+            <div className="p-5 sm:p-6">
+              <h2 className="font-serif text-lg tracking-tight sm:text-xl">Recent Payments</h2>
+            </div>
+            <div className="overflow-x-auto px-5 pb-5 sm:px-6">
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+                  <tr>
+                    <th className="py-2 pr-4 font-normal">Block</th>
+                    <th className="py-2 pr-4 font-normal">Time</th>
+                    <th className="py-2 pr-4 font-normal">Payee</th>
+                    <th className="py-2 text-right font-normal">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-foreground/90">
+                  {recent.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="py-4 text-center font-sans text-muted-foreground">
+                        No payments found in the cached blocks
+                      </td>
+                    </tr>
+                  ) : (
+                    recent.map((p) => (
+                      <tr key={`${p.blockHash}-${p.payee}`} className="border-t border-white/5">
+                        <td className="py-2 pr-4">{p.height.toLocaleString()}</td>
+                        <td className="py-2 pr-4 font-sans text-muted-foreground">{new Date(p.time * 1000).toLocaleString()}</td>
+                        <td className="max-w-[16rem] truncate py-2 pr-4">{p.payee}</td>
+                        <td className="py-2 text-right">{formatDash(p.amount)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { rebuildAllRollups } from "../server/rollups";
+
+// Usage: npm run rollups:rebuild -- [from] [to]
+// Dates are ISO (2026-03-01) or unix seconds; without them every cached day is rebuilt.
+function parseArg(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value) / 1000;
+  if (isNaN(seconds)) throw new Error(`Invalid date: ${value}`);
+  return seconds;
+}
+
+async function rebuild() {
+  const [from, to] = process.argv.slice(2).map(parseArg);
+  console.log("rebuilding core fee rollups...");
+  const days = await rebuildAllRollups(from, to);
+  console.log(`rebuilt ${days} day(s)`);
+}
+
+rebuild()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+import { Publisher } from "zeromq";
+
+// A stand-in for Dash Core's ZMQ publisher, for trying the subscriber locally.
+// Usage: npm run zmq:publish -- <blockhash> [blockhash...]
+// Binds DASH_ZMQ_URL (default tcp://127.0.0.1:28332) and sends a hashblock for each hash, e.g. the
+// output of `dash-cli getbestblockhash`. Start the server with the same DASH_ZMQ_URL.
+const CONNECT_WAIT_MS = 15_000;
+
+async function publish() {
+  const url = process.env.DASH_ZMQ_URL || "tcp://127.0.0.1:28332";
+  const hashes = process.argv.slice(2);
+  if (hashes.length === 0) throw new Error("Pass at least one block hash");
+
+  const sock = new Publisher();
+  await sock.bind(url);
+  console.log(`bound ${url}, waiting for a subscriber...`);
+
+  // PUB drops messages sent before a subscriber has connected
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("no subscriber connected")), CONNECT_WAIT_MS);
+    sock.events.on("accept", () => {
+      clearTimeout(timer);
+      setTimeout(resolve, 500);
+    });
+  });
+
+  for (const [i, hash] of hashes.entries()) {
+    if (!/^[0-9a-f]{64}$/i.test(hash)) throw new Error(`Not a block hash: ${hash}`);
+    const sequence = Buffer.alloc(4);
+    sequence.writeUInt32LE(i);
+    await sock.send(["hashblock", Buffer.from(hash, "hex"), sequence]);
+    console.log(`sent hashblock ${hash}`);
+  }
+  sock.close();
+}
+
+publish()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
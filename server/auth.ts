@@ -0,0 +1,208 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { log } from "./index";
+import { pool } from "./db";
+import { storage } from "./storage";
+import type { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_TTL_MS = 7 * 24 * 3600_000;
+const TOKEN_PREFIX = "dfs_";
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const expected = Buffer.from(hashed, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function publicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+// ADMIN_USERNAME / ADMIN_PASSWORD seed the first admin; an existing user of that name is promoted
+// but keeps its password
+async function ensureAdminUser() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  const existing = await storage.getUserByUsername(username);
+  if (!existing) {
+    await storage.createUser({ username, password: await hashPassword(password) }, "admin");
+    log(`Created admin user ${username}`, "auth");
+  } else if (existing.role !== "admin") {
+    await storage.setUserRole(existing.id, "admin");
+    log(`Promoted ${username} to admin`, "auth");
+  }
+}
+
+async function userFromBearerToken(req: Request): Promise<SelectUser | undefined> {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || "");
+  if (!match) return undefined;
+  const token = await storage.getActiveApiToken(hashToken(match[1]));
+  if (!token) return undefined;
+  storage.touchApiToken(token.id).catch(() => {});
+  return storage.getUser(token.userId);
+}
+
+// Accepts either a logged-in admin session or an admin's API token in `Authorization: Bearer`
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = req.isAuthenticated() ? req.user : await userFromBearerToken(req);
+    if (!user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (user.role !== "admin") {
+      return res.status(403).json({ error: "Admin role required" });
+    }
+    req.user = user;
+    next();
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+}
+
+const loginBody = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+const tokenBody = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    secret = randomBytes(32).toString("hex");
+    log("SESSION_SECRET not set; using a random secret, sessions end on restart", "auth");
+  }
+
+  const PgStore = connectPg(session);
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool, tableName: "session", createTableIfMissing: false }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) return done(null, false);
+      done(null, user);
+    } catch (err) {
+      done(err);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  ensureAdminUser().catch((err: any) => log(`Admin bootstrap error: ${err.message}`, "auth"));
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginBody.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return res.status(500).json({ error: err.message });
+      if (!user) return res.status(401).json({ error: "Invalid username or password" });
+      req.login(user, (loginErr) => {
+        if (loginErr) return res.status(500).json({ error: loginErr.message });
+        res.json(publicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((err) => {
+      if (err) return res.status(500).json({ error: err.message });
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Not logged in" });
+    res.json(publicUser(req.user));
+  });
+
+  app.get("/api/auth/tokens", requireAdmin, async (_req, res) => {
+    try {
+      const tokens = await storage.listApiTokens();
+      res.json(tokens.map(({ tokenHash: _hash, ...t }) => t));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // The plain token is only ever returned here
+  app.post("/api/auth/tokens", requireAdmin, async (req, res) => {
+    try {
+      const parsed = tokenBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const token = TOKEN_PREFIX + randomBytes(32).toString("hex");
+      const created = await storage.createApiToken(req.user!.id, parsed.data.name, hashToken(token));
+      const { tokenHash: _hash, ...rest } = created;
+      res.status(201).json({ ...rest, token });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.delete<{ id: string }>("/api/auth/tokens/:id", requireAdmin, async (req, res) => {
+    try {
+      const revoked = await storage.revokeApiToken(parseInt(req.params.id));
+      if (!revoked) return res.status(404).json({ error: "Token not found" });
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+}
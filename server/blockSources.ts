@@ -0,0 +1,384 @@
+import { log } from "./index";
+import { fetchJson, rpcCall, getRpcConfig } from "./dashService";
+import { getBlockSubsidy, getCoinbaseSubsidy, getFeesFromCoinbase, isSuperblock, splitReward } from "./consensus";
+
+const INSIGHT_BASE = "https://insight.dash.org/insight-api";
+const BLOCKBOOK_BASE = "https://dashblockexplorer.com/api/v2";
+
+const SATOSHIS_PER_DASH = 100_000_000;
+
+// Weight of the newest observation in the rolling success/latency averages
+const HEALTH_EWMA_ALPHA = 0.2;
+// Latency at which a source's score is halved
+const LATENCY_HALF_SCORE_MS = 2_000;
+// Failures fade with this half-life, so a source that only gets sampled traffic after a bad
+// spell wins back its rank once it has been quiet for a while
+const HEALTH_RECOVERY_HALF_LIFE_MS = 10 * 60_000;
+
+export interface CoinbaseOutput {
+  vout: number;
+  address: string | null;
+  value: number;
+}
+
+export interface BlockData {
+  hash: string;
+  prevHash: string | null;
+  height: number;
+  time: number;
+  txCount: number;
+  totalFees: number;
+  subsidy: number;
+  source: string;
+  coinbaseOutputs: CoinbaseOutput[] | null;
+}
+
+export interface BlockSource {
+  name: string;
+  label: string;
+  priority: number;
+  isConfigured(): boolean;
+  getTipHeight(): Promise<number>;
+  getBlockHash(height: number): Promise<string>;
+  getBlock(height: number): Promise<BlockData>;
+}
+
+interface SourceHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  successEwma: number;
+  latencyEwmaMs: number | null;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+// Dash Core builds the coinbase as [miner, masternode payee(s), superblock payees...]. The
+// masternode payment can be split between owner and operator, so in a superblock the outputs
+// after the miner are consumed until they cover the expected masternode payment; whatever
+// follows is treasury. Outside superblocks everything after the miner is the masternode.
+function splitCoinbaseOutputs(height: number, outputs: CoinbaseOutput[], fees: number) {
+  const sorted = [...outputs].sort((a, b) => a.vout - b.vout);
+  if (sorted.length < 2) return { masternode: [], treasury: [] };
+  if (!isSuperblock(height)) return { masternode: sorted.slice(1), treasury: [] };
+
+  const expectedMasternode = splitReward(height, getBlockSubsidy(height), fees).masternode;
+  let covered = 0;
+  let i = 1;
+  while (i < sorted.length && covered < expectedMasternode * 0.999) {
+    covered += sorted[i].value;
+    i++;
+  }
+  return { masternode: sorted.slice(1, i), treasury: sorted.slice(i) };
+}
+
+export function findTreasuryOutputs(height: number, outputs: CoinbaseOutput[], fees: number): CoinbaseOutput[] {
+  return splitCoinbaseOutputs(height, outputs, fees).treasury;
+}
+
+export function findMasternodeOutputs(height: number, outputs: CoinbaseOutput[], fees: number): CoinbaseOutput[] {
+  return splitCoinbaseOutputs(height, outputs, fees).masternode;
+}
+
+function coinbaseFees(height: number, outputs: CoinbaseOutput[]) {
+  const coinbaseSubsidy = getCoinbaseSubsidy(height);
+  const coinbaseTotal = outputs.reduce((s, o) => s + o.value, 0);
+  const treasuryPaid = findTreasuryOutputs(height, outputs, 0).reduce((s, o) => s + o.value, 0);
+  const totalFees = outputs.length > 0 ? getFeesFromCoinbase(height, coinbaseTotal - treasuryPaid) : 0;
+  return { totalFees, coinbaseSubsidy };
+}
+
+function outputAddress(scriptPubKey: any, addresses?: string[]): string | null {
+  return scriptPubKey?.address || scriptPubKey?.addresses?.[0] || addresses?.[0] || null;
+}
+
+const rpcSource: BlockSource = {
+  name: "rpc",
+  label: "Dash Core RPC",
+  priority: 1,
+  isConfigured: () => getRpcConfig().configured,
+  async getTipHeight() {
+    return await rpcCall("getblockcount");
+  },
+  async getBlockHash(height) {
+    return await rpcCall("getblockhash", [height]);
+  },
+  async getBlock(height) {
+    const stats = await rpcCall("getblockstats", [height]);
+    const block = await rpcCall("getblock", [stats.blockhash, 1]);
+
+    // Only the coinbase is decoded; passing the block hash lets this work without -txindex
+    let coinbaseOutputs: CoinbaseOutput[] | null = null;
+    if (block?.tx?.[0]) {
+      const cbTx = await rpcCall("getrawtransaction", [block.tx[0], true, stats.blockhash]);
+      coinbaseOutputs = (cbTx?.vout || []).map((v: any) => ({
+        vout: v.n,
+        address: outputAddress(v.scriptPubKey),
+        value: Number(v.value) || 0,
+      }));
+    }
+
+    return {
+      hash: stats.blockhash,
+      prevHash: block?.previousblockhash || null,
+      height: stats.height,
+      time: stats.time,
+      txCount: stats.txs,
+      totalFees: stats.totalfee / SATOSHIS_PER_DASH,
+      subsidy: stats.subsidy / SATOSHIS_PER_DASH,
+      source: "rpc",
+      coinbaseOutputs,
+    };
+  },
+};
+
+const insightSource: BlockSource = {
+  name: "insight",
+  label: "Insight API",
+  priority: 0.9,
+  isConfigured: () => true,
+  async getTipHeight() {
+    const data = await fetchJson(`${INSIGHT_BASE}/status`);
+    if (!data?.info?.blocks) throw new Error("Insight status missing block height");
+    return data.info.blocks;
+  },
+  async getBlockHash(height) {
+    const indexData = await fetchJson(`${INSIGHT_BASE}/block-index/${height}`, 15_000);
+    if (!indexData?.blockHash) throw new Error(`Insight has no block at height ${height}`);
+    return indexData.blockHash;
+  },
+  async getBlock(height) {
+    const blockHash = await this.getBlockHash(height);
+    const block = await fetchJson(`${INSIGHT_BASE}/block/${blockHash}`, 15_000);
+    if (!block) throw new Error(`Insight returned no block for ${blockHash}`);
+
+    let coinbaseOutputs: CoinbaseOutput[] | null = null;
+    if (block.tx?.[0]) {
+      try {
+        const cbTx = await fetchJson(`${INSIGHT_BASE}/tx/${block.tx[0]}`, 15_000);
+        if (cbTx?.vout) {
+          coinbaseOutputs = cbTx.vout.map((v: any, i: number) => ({
+            vout: v.n ?? i,
+            address: outputAddress(v.scriptPubKey),
+            value: parseFloat(v.value) || 0,
+          }));
+        }
+      } catch {}
+    }
+    const { totalFees, coinbaseSubsidy } = coinbaseFees(block.height, coinbaseOutputs || []);
+
+    return {
+      hash: block.hash,
+      prevHash: block.previousblockhash || null,
+      height: block.height,
+      time: block.time,
+      txCount: block.tx?.length || 0,
+      totalFees,
+      subsidy: coinbaseSubsidy,
+      source: "insight",
+      coinbaseOutputs,
+    };
+  },
+};
+
+const blockbookSource: BlockSource = {
+  name: "blockbook",
+  label: "Blockbook (dashblockexplorer)",
+  priority: 0.8,
+  isConfigured: () => true,
+  async getTipHeight() {
+    const data = await fetchJson(BLOCKBOOK_BASE, 10_000);
+    if (!data?.blockbook?.bestHeight) throw new Error("Blockbook status missing best height");
+    return data.blockbook.bestHeight;
+  },
+  async getBlockHash(height) {
+    const data = await fetchJson(`${BLOCKBOOK_BASE}/block-index/${height}`, 15_000);
+    if (!data?.blockHash) throw new Error(`Blockbook has no block at height ${height}`);
+    return data.blockHash;
+  },
+  async getBlock(height) {
+    const block = await fetchJson(`${BLOCKBOOK_BASE}/block/${height}`, 15_000);
+    if (!block?.hash) throw new Error(`Blockbook returned no block at height ${height}`);
+
+    const coinbase = block.txs?.[0];
+    const coinbaseOutputs: CoinbaseOutput[] | null = coinbase?.vout
+      ? coinbase.vout.map((v: any, i: number) => ({
+          vout: v.n ?? i,
+          address: outputAddress(null, v.addresses),
+          value: Number(v.value || 0) / SATOSHIS_PER_DASH,
+        }))
+      : null;
+    const { totalFees, coinbaseSubsidy } = coinbaseFees(block.height, coinbaseOutputs || []);
+
+    return {
+      hash: block.hash,
+      prevHash: block.previousBlockHash || null,
+      height: block.height,
+      time: block.time,
+      txCount: block.txCount || block.txs?.length || 0,
+      totalFees,
+      subsidy: coinbaseSubsidy,
+      source: "blockbook",
+      coinbaseOutputs,
+    };
+  },
+};
+
+const blockSources: BlockSource[] = [rpcSource, insightSource, blockbookSource];
+const sourceHealth = new Map<string, SourceHealth>();
+
+function healthOf(name: string): SourceHealth {
+  let health = sourceHealth.get(name);
+  if (!health) {
+    health = {
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      successEwma: 1,
+      latencyEwmaMs: null,
+      lastLatencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      lastSuccessAt: null,
+    };
+    sourceHealth.set(name, health);
+  }
+  return health;
+}
+
+function recordSuccess(name: string, latencyMs: number) {
+  const health = healthOf(name);
+  health.successes++;
+  health.consecutiveFailures = 0;
+  health.successEwma = health.successEwma * (1 - HEALTH_EWMA_ALPHA) + HEALTH_EWMA_ALPHA;
+  health.latencyEwmaMs = health.latencyEwmaMs == null
+    ? latencyMs
+    : health.latencyEwmaMs * (1 - HEALTH_EWMA_ALPHA) + latencyMs * HEALTH_EWMA_ALPHA;
+  health.lastLatencyMs = latencyMs;
+  health.lastSuccessAt = Date.now();
+}
+
+// The success average with the time since the last failure taken into account
+function recoveredEwma(health: SourceHealth): number {
+  if (health.lastErrorAt == null) return health.successEwma;
+  const decay = Math.pow(0.5, (Date.now() - health.lastErrorAt) / HEALTH_RECOVERY_HALF_LIFE_MS);
+  return 1 - (1 - health.successEwma) * decay;
+}
+
+function recordFailure(name: string, error: string) {
+  const health = healthOf(name);
+  health.failures++;
+  health.consecutiveFailures++;
+  // Folds in the recovery so far, since lastErrorAt restarts it
+  health.successEwma = recoveredEwma(health) * (1 - HEALTH_EWMA_ALPHA);
+  health.lastError = error;
+  health.lastErrorAt = Date.now();
+}
+
+function scoreSource(source: BlockSource): number {
+  if (!source.isConfigured()) return 0;
+  const health = healthOf(source.name);
+  const latencyFactor = health.latencyEwmaMs == null
+    ? 1
+    : LATENCY_HALF_SCORE_MS / (LATENCY_HALF_SCORE_MS + health.latencyEwmaMs);
+  return recoveredEwma(health) * latencyFactor * source.priority;
+}
+
+function rankSources(): BlockSource[] {
+  return blockSources
+    .filter((s) => s.isConfigured())
+    .sort((a, b) => scoreSource(b) - scoreSource(a));
+}
+
+async function callSource<T>(source: BlockSource, fn: (source: BlockSource) => Promise<T>): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await fn(source);
+    recordSuccess(source.name, Date.now() - start);
+    return result;
+  } catch (err: any) {
+    recordFailure(source.name, err.message || String(err));
+    throw err;
+  }
+}
+
+async function withHealthiestSource<T>(
+  operation: string,
+  fn: (source: BlockSource) => Promise<T>,
+  exclude: string[] = [],
+): Promise<T | null> {
+  for (const source of rankSources()) {
+    if (exclude.includes(source.name)) continue;
+    try {
+      return await callSource(source, fn);
+    } catch {}
+  }
+  if (exclude.length === 0) log(`All block sources failed for ${operation}`, "blockSources");
+  return null;
+}
+
+export function fetchTipHeight(): Promise<number | null> {
+  return withHealthiestSource("tip height", (s) => s.getTipHeight());
+}
+
+export function fetchBlockHash(height: number): Promise<string | null> {
+  return withHealthiestSource(`block hash ${height}`, (s) => s.getBlockHash(height));
+}
+
+export function fetchBlock(height: number): Promise<BlockData | null> {
+  return withHealthiestSource(`block ${height}`, (s) => s.getBlock(height));
+}
+
+export function fetchBlockExcluding(height: number, exclude: string[]): Promise<BlockData | null> {
+  return withHealthiestSource(`block ${height}`, (s) => s.getBlock(height), exclude);
+}
+
+export function isKnownSource(name: string): boolean {
+  return blockSources.some((s) => s.name === name);
+}
+
+export async function fetchBlockFromSource(name: string, height: number): Promise<BlockData> {
+  const source = blockSources.find((s) => s.name === name);
+  if (!source) throw new Error(`Unknown block source: ${name}`);
+  if (!source.isConfigured()) throw new Error(`Block source ${name} is not configured`);
+  return callSource(source, (s) => s.getBlock(height));
+}
+
+// Health only changes when a source is called; the rpc-recheck job pings the local node through
+// here so a recovered node takes its traffic back
+export async function probeSource(name: string): Promise<boolean> {
+  const source = blockSources.find((s) => s.name === name);
+  if (!source?.isConfigured()) return false;
+  try {
+    await callSource(source, (s) => s.getTipHeight());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getSourceHealth() {
+  const ranked = rankSources();
+  return blockSources.map((source) => {
+    const health = healthOf(source.name);
+    const attempts = health.successes + health.failures;
+    return {
+      name: source.name,
+      label: source.label,
+      configured: source.isConfigured(),
+      active: ranked[0]?.name === source.name,
+      score: scoreSource(source),
+      successes: health.successes,
+      failures: health.failures,
+      consecutiveFailures: health.consecutiveFailures,
+      successRate: attempts > 0 ? health.successes / attempts : null,
+      avgLatencyMs: health.latencyEwmaMs != null ? Math.round(health.latencyEwmaMs) : null,
+      lastLatencyMs: health.lastLatencyMs,
+      lastError: health.lastError,
+      lastErrorAt: health.lastErrorAt,
+      lastSuccessAt: health.lastSuccessAt,
+    };
+  });
+}
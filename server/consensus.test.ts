@@ -0,0 +1,143 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import backfillData from "./backfill-data.json" with { type: "json" };
+import {
+  getBlockSubsidy,
+  getCoinbaseSubsidy,
+  getFeesFromCoinbase,
+  getMasternodeShare,
+  getPlatformShare,
+  getTreasurySubsidy,
+  isSuperblock,
+  splitReward,
+} from "./consensus";
+
+const V20 = 1987776;
+const MN_RR = 2128896;
+const BRR = 1374912;
+// First superblock after BRR activation, where the masternode share starts stepping up
+const BRR_REALLOC_START = 1379128;
+
+const close = (actual: number, expected: number, epsilon = 1e-8) =>
+  assert.ok(Math.abs(actual - expected) <= epsilon, `expected ${expected}, got ${actual}`);
+
+test("subsidy follows the yearly reductions in integer duffs", () => {
+  assert.equal(getBlockSubsidy(210240, "mainnet"), 5);
+  assert.equal(getBlockSubsidy(210241, "mainnet"), 4.64285715);
+  assert.equal(getBlockSubsidy(1500000, "mainnet"), 2.97630357);
+});
+
+test("difficulty sets the base subsidy only before V20", () => {
+  assert.equal(getBlockSubsidy(100, "mainnet", 1), 277.75);
+  assert.equal(getBlockSubsidy(V20 - 1, "mainnet", 1), 12.83151273);
+  assert.equal(getBlockSubsidy(V20 - 1, "mainnet"), 2.56630257);
+  assert.equal(getBlockSubsidy(V20, "mainnet", 1), 2.56630257);
+});
+
+test("coinbase subsidy excludes the treasury: 10% before MN_RR, 20% after", () => {
+  assert.equal(getCoinbaseSubsidy(1000000, "mainnet"), 3.34559821);
+  assert.equal(getTreasurySubsidy(1000000, "mainnet"), 0.37173313);
+  assert.equal(getCoinbaseSubsidy(MN_RR - 1, "mainnet"), 2.14469573);
+  assert.equal(getCoinbaseSubsidy(MN_RR, "mainnet"), 1.9063962);
+  assert.equal(getTreasurySubsidy(MN_RR, "mainnet"), 0.47659905);
+});
+
+test("coinbase subsidy plus fees matches the reward of every cached historic block", () => {
+  const blocks = (backfillData as Array<{ height: number; totalFees: number; reward: number }>)
+    .filter((b) => !isSuperblock(b.height, "mainnet"));
+  assert.ok(blocks.length > 0);
+  for (const block of blocks) {
+    // The cached values went through float32, so only about seven significant digits survive
+    close(getCoinbaseSubsidy(block.height, "mainnet") + block.totalFees, block.reward, 1e-6);
+  }
+});
+
+test("masternode share steps up before BRR, through BRR and jumps at MN_RR", () => {
+  close(getMasternodeShare(158000, "mainnet"), 0.2);
+  close(getMasternodeShare(158001, "mainnet"), 0.25);
+  close(getMasternodeShare(BRR - 1, "mainnet"), 0.5);
+  close(getMasternodeShare(BRR_REALLOC_START - 1, "mainnet"), 0.5);
+  close(getMasternodeShare(BRR_REALLOC_START, "mainnet"), 0.513);
+  close(getMasternodeShare(BRR_REALLOC_START + 16616 * 3, "mainnet"), 0.526);
+  close(getMasternodeShare(MN_RR - 1, "mainnet"), 0.594);
+  close(getMasternodeShare(MN_RR, "mainnet"), 0.75);
+});
+
+test("splitReward sends a platform share only after MN_RR and accounts for every duff", () => {
+  const before = splitReward(V20, 2.56630257, 0.001, "mainnet");
+  assert.equal(before.platform, 0);
+  close(before.treasury, 0.256630257);
+  close(before.masternode, (2.56630257 * 0.9 + 0.001) * getMasternodeShare(V20, "mainnet"));
+
+  const after = splitReward(MN_RR, 2.38299525, 0.001, "mainnet");
+  const coinbaseValue = 2.38299525 * 0.8 + 0.001;
+  close(after.treasury, 2.38299525 * 0.2);
+  close(after.miner, coinbaseValue * 0.25);
+  close(after.masternode, coinbaseValue * 0.75 * 0.625);
+  close(after.platform, coinbaseValue * 0.75 * 0.375);
+  close(after.treasury + after.miner + after.masternode + after.platform, 2.38299525 + 0.001);
+  assert.equal(getPlatformShare(MN_RR - 1, "mainnet"), 0);
+});
+
+// Expected values below are worked out by hand from Dash Core's schedule (5 DASH base, minus 1/14
+// every 210240 blocks in whole duffs; 10% treasury, 20% after MN_RR; masternodes 50% before BRR,
+// vBRRPeriods[12] = 58.5% at height 2,000,000, 75% after MN_RR with 37.5% of that to Platform)
+// and the cached mainnet blocks, not from this module.
+test("known mainnet block before BRR: height 1,000,000", () => {
+  assert.equal(getBlockSubsidy(1000000, "mainnet"), 3.71733134);
+  assert.equal(getCoinbaseSubsidy(1000000, "mainnet"), 3.34559821);
+  close(getMasternodeShare(1000000, "mainnet"), 0.5);
+  const split = splitReward(1000000, 3.71733134, 0.01, "mainnet");
+  close(split.masternode, 1.6777991);
+  assert.equal(split.platform, 0);
+  // Miner and masternode outputs of a block with 0.01 DASH in fees
+  close(getFeesFromCoinbase(1000000, 3.35559821, "mainnet"), 0.01);
+});
+
+test("known mainnet block after V20: height 2,000,000", () => {
+  assert.equal(getBlockSubsidy(2000000, "mainnet", 1), 2.56630257);
+  assert.equal(getCoinbaseSubsidy(2000000, "mainnet"), 2.30967232);
+  close(getMasternodeShare(2000000, "mainnet"), 0.585);
+  const split = splitReward(2000000, 2.56630257, 0.001, "mainnet");
+  close(split.masternode, 1.35174331);
+  close(split.miner, 0.95892901);
+  assert.equal(split.platform, 0);
+  close(getFeesFromCoinbase(2000000, 2.31067232, "mainnet"), 0.001);
+});
+
+test("known mainnet block after MN_RR: height 2,419,006 from the cached blocks", () => {
+  const block = (backfillData as Array<{ height: number; totalFees: number; reward: number }>)
+    .find((b) => b.height === 2419006);
+  assert.ok(block);
+  close(block.totalFees, 0.00324534, 1e-8);
+  close(block.reward, 1.77347039, 1e-7);
+
+  assert.equal(getBlockSubsidy(2419006, "mainnet"), 2.21278131);
+  assert.equal(getCoinbaseSubsidy(2419006, "mainnet"), 1.77022505);
+  assert.equal(getMasternodeShare(2419006, "mainnet"), 0.75);
+  assert.equal(getPlatformShare(2419006, "mainnet"), 0.375);
+  const split = splitReward(2419006, 2.21278131, 0.00324534, "mainnet");
+  close(split.treasury, 0.44255626);
+  close(split.miner, 0.4433676);
+  close(split.masternode, 0.83131425);
+  close(split.platform, 0.49878855);
+
+  // The coinbase pays 1 - 0.75 * 0.375 = 71.875% of subsidy plus fees; the rest goes to Platform
+  close(getFeesFromCoinbase(2419006, 1.27468184, "mainnet"), 0.00324534);
+});
+
+test("fee derivation adds the platform share back for cached blocks after MN_RR", () => {
+  const blocks = (backfillData as Array<{ height: number; totalFees: number; reward: number }>)
+    .filter((b) => !isSuperblock(b.height, "mainnet"))
+    .slice(0, 500);
+  for (const block of blocks) {
+    const paid = block.reward * 0.71875;
+    // The outputs pay less than the coinbase subsidy alone, which is why plain subtraction gave 0
+    assert.ok(paid < getCoinbaseSubsidy(block.height, "mainnet"));
+    close(getFeesFromCoinbase(block.height, paid, "mainnet"), block.totalFees, 1e-6);
+  }
+});
+
+test("fee derivation never reports negative fees", () => {
+  assert.equal(getFeesFromCoinbase(MN_RR, 0, "mainnet"), 0);
+});
@@ -0,0 +1,179 @@
+export type DashNetwork = "mainnet" | "testnet";
+
+const DUFFS_PER_DASH = 100_000_000;
+
+export const TARGET_BLOCK_SPACING = 150;
+
+interface ConsensusParams {
+  subsidyReductionInterval: number;
+  budgetPaymentsStartBlock: number;
+  superblockStartBlock: number;
+  superblockCycle: number;
+  masternodePaymentsIncreaseBlock: number;
+  masternodePaymentsIncreasePeriod: number;
+  brrHeight: number;
+  v20Height: number;
+  mnRewardReallocationHeight: number;
+}
+
+const PARAMS: Record<DashNetwork, ConsensusParams> = {
+  mainnet: {
+    subsidyReductionInterval: 210240,
+    budgetPaymentsStartBlock: 328008,
+    superblockStartBlock: 614820,
+    superblockCycle: 16616,
+    masternodePaymentsIncreaseBlock: 158000,
+    masternodePaymentsIncreasePeriod: 576 * 30,
+    brrHeight: 1374912,
+    v20Height: 1987776,
+    mnRewardReallocationHeight: 2128896,
+  },
+  testnet: {
+    subsidyReductionInterval: 210240,
+    budgetPaymentsStartBlock: 4100,
+    superblockStartBlock: 4200,
+    superblockCycle: 24,
+    masternodePaymentsIncreaseBlock: 4030,
+    masternodePaymentsIncreasePeriod: 10,
+    brrHeight: 387500,
+    v20Height: 905100,
+    mnRewardReallocationHeight: 1066900,
+  },
+};
+
+// Block Reward Reallocation: masternode share of the coinbase (per mille), one step per three superblock cycles
+const BRR_PERIODS = [513, 526, 533, 540, 546, 552, 557, 562, 567, 572, 577, 582, 585, 588, 591, 594, 597, 599, 600];
+
+// Share of the masternode payment locked into the Platform credit pool once MN_RR is active
+const PLATFORM_SHARE_OF_MASTERNODE = 0.375;
+
+export function getNetwork(): DashNetwork {
+  return process.env.DASH_NETWORK === "testnet" ? "testnet" : "mainnet";
+}
+
+export function getConsensusParams(network: DashNetwork = getNetwork()): ConsensusParams {
+  return PARAMS[network];
+}
+
+// Base subsidy before the yearly reductions. Difficulty only mattered before V20 and has kept
+// the mainnet base at its 5 DASH floor for years, so it is assumed at the floor when unknown.
+function getSubsidyBase(prevHeight: number, params: ConsensusParams, prevDifficulty?: number): number {
+  if (prevHeight + 1 >= params.v20Height || prevDifficulty == null) return 5;
+
+  const dDiff = prevDifficulty;
+  if (prevHeight < 5465) {
+    return Math.min(500, Math.max(1, 1111 / Math.pow(dDiff + 1, 2)));
+  }
+  if (prevHeight < 17000 || (dDiff <= 75 && prevHeight < 24000)) {
+    return Math.min(500, Math.max(25, 11111 / Math.pow((dDiff + 51) / 6, 2)));
+  }
+  return Math.min(25, Math.max(5, 2222222 / Math.pow((dDiff + 2600) / 9, 2)));
+}
+
+// Total new coins for a block in duffs, including the treasury part. Mirrors Dash Core's
+// integer arithmetic so results match node-reported subsidies to the duff.
+function getTotalSubsidyDuffs(height: number, params: ConsensusParams, prevDifficulty?: number): number {
+  const prevHeight = height - 1;
+  let subsidy = Math.trunc(getSubsidyBase(prevHeight, params, prevDifficulty) * DUFFS_PER_DASH);
+  for (let i = params.subsidyReductionInterval; i <= prevHeight; i += params.subsidyReductionInterval) {
+    subsidy -= Math.trunc(subsidy / 14);
+  }
+  return subsidy;
+}
+
+function getTreasuryDivisor(height: number, params: ConsensusParams): number {
+  if (height - 1 <= params.budgetPaymentsStartBlock) return 0;
+  return height >= params.mnRewardReallocationHeight ? 5 : 10;
+}
+
+function getTreasuryDuffs(height: number, params: ConsensusParams, prevDifficulty?: number): number {
+  const divisor = getTreasuryDivisor(height, params);
+  if (!divisor) return 0;
+  return Math.trunc(getTotalSubsidyDuffs(height, params, prevDifficulty) / divisor);
+}
+
+export function getBlockSubsidy(height: number, network: DashNetwork = getNetwork(), prevDifficulty?: number): number {
+  return getTotalSubsidyDuffs(height, PARAMS[network], prevDifficulty) / DUFFS_PER_DASH;
+}
+
+export function getCoinbaseSubsidy(height: number, network: DashNetwork = getNetwork(), prevDifficulty?: number): number {
+  const params = PARAMS[network];
+  const total = getTotalSubsidyDuffs(height, params, prevDifficulty);
+  return (total - getTreasuryDuffs(height, params, prevDifficulty)) / DUFFS_PER_DASH;
+}
+
+export function getTreasurySubsidy(height: number, network: DashNetwork = getNetwork(), prevDifficulty?: number): number {
+  return getTreasuryDuffs(height, PARAMS[network], prevDifficulty) / DUFFS_PER_DASH;
+}
+
+export function isSuperblock(height: number, network: DashNetwork = getNetwork()): boolean {
+  const params = PARAMS[network];
+  return height >= params.superblockStartBlock && height % params.superblockCycle === 0;
+}
+
+// Share of the coinbase value (subsidy after treasury + fees) paid to the masternode
+export function getMasternodeShare(height: number, network: DashNetwork = getNetwork()): number {
+  const params = PARAMS[network];
+  if (height >= params.mnRewardReallocationHeight) return 0.75;
+
+  if (height >= params.brrHeight) {
+    const reallocStart = params.brrHeight - (params.brrHeight % params.superblockCycle) + params.superblockCycle;
+    if (height >= reallocStart) {
+      const period = Math.min(
+        Math.floor((height - reallocStart) / (params.superblockCycle * 3)),
+        BRR_PERIODS.length - 1,
+      );
+      return BRR_PERIODS[period] / 1000;
+    }
+  }
+
+  const increaseBlock = params.masternodePaymentsIncreaseBlock;
+  const period = params.masternodePaymentsIncreasePeriod;
+  const steps: Array<[number, number]> = [
+    [0, 0.05], [1, 0.05], [2, 0.05], [3, 0.025], [4, 0.025], [5, 0.025], [6, 0.025], [7, 0.025], [9, 0.025],
+  ];
+  let share = 0.2;
+  for (const [n, increment] of steps) {
+    if (height > increaseBlock + period * n) share += increment;
+  }
+  return share;
+}
+
+// Share of the masternode payment redirected to the Platform credit pool (EVO nodes)
+export function getPlatformShare(height: number, network: DashNetwork = getNetwork()): number {
+  return height >= PARAMS[network].mnRewardReallocationHeight ? PLATFORM_SHARE_OF_MASTERNODE : 0;
+}
+
+export interface RewardSplit {
+  treasury: number;
+  miner: number;
+  masternode: number;
+  platform: number;
+}
+
+// Splits an amount of newly minted coins plus fees into its recipients using the rules active
+// at `height`. Fees never reach the treasury; they follow the coinbase split.
+export function splitReward(height: number, subsidy: number, fees: number, network: DashNetwork = getNetwork()): RewardSplit {
+  const params = PARAMS[network];
+  const divisor = getTreasuryDivisor(height, params);
+  const treasury = divisor ? subsidy / divisor : 0;
+  const coinbaseValue = subsidy - treasury + fees;
+  const masternodeTotal = coinbaseValue * getMasternodeShare(height, network);
+  const platform = masternodeTotal * getPlatformShare(height, network);
+  return {
+    treasury,
+    miner: coinbaseValue - masternodeTotal,
+    masternode: masternodeTotal - platform,
+    platform,
+  };
+}
+
+// Inverse of splitReward for explorer data, which only shows coinbase outputs. Since MN_RR the
+// platform share is moved out of the coinbase, so fees are solved from what the miner and
+// masternode outputs pay rather than by subtracting the subsidy from the coinbase total.
+export function getFeesFromCoinbase(height: number, minerAndMasternodePaid: number, network: DashNetwork = getNetwork()): number {
+  const base = splitReward(height, getBlockSubsidy(height, network), 0, network);
+  const perFee = splitReward(height, 0, 1, network);
+  const fees = (minerAndMasternodePaid - base.miner - base.masternode) / (perFee.miner + perFee.masternode);
+  return Math.max(0, Math.round(fees * DUFFS_PER_DASH) / DUFFS_PER_DASH);
+}
@@ -1,18 +1,71 @@
 import { log } from "./index";
 import { db } from "./db";
-import { coreBlockFees, platformEpochFees, syncState } from "@shared/schema";
-import { desc, gte, lte, asc, eq, sql } from "drizzle-orm";
+import { blockDiscrepancies, coreBlockFees, coreBlockTxTypes, coreReorgs, coreTransactions, masternodeCountSnapshots, masternodePayments, platformEpochFees, superblockPayouts, syncState } from "@shared/schema";
+import { and, desc, gte, gt, lt, lte, asc, eq, isNull, sql } from "drizzle-orm";
+import {
+  fetchBlock,
+  fetchBlockExcluding,
+  fetchBlockFromSource,
+  fetchBlockHash,
+  fetchTipHeight,
+  probeSource,
+  type BlockData,
+} from "./blockSources";
+import { TARGET_BLOCK_SPACING, isSuperblock } from "./consensus";
+import { findSuperblocksMissingPayouts, recordSuperblockPayouts } from "./treasury";
+import { findBlocksMissingPayments, recordMasternodePayments } from "./masternodes";
+import { recordBlockTransactions } from "./transactions";
+import { recordPrice } from "./prices";
+import { flushRollups, markRollupsDirty } from "./rollups";
+import { recordJobEvent } from "./jobLog";
+import { publishEvent } from "./events";
+import { isJobRunning } from "./scheduler";
 
-const INSIGHT_BASE = "https://insight.dash.org/insight-api";
 const PLATFORM_BASE = "https://platform-explorer.pshenmic.dev";
 
 const CREDITS_PER_DASH = 100_000_000_000;
-const SATOSHIS_PER_DASH = 100_000_000;
 
 const JAN_1_2026_UNIX = 1767225600;
 
+// ChainLocks make anything deeper than a handful of blocks practically impossible,
+// so a mismatch beyond this depth is treated as bad source data rather than a reorg.
+const MAX_REORG_DEPTH = 100;
+
+const GAP_REPAIR_MAX_BLOCKS = 500;
+
+// Fraction of newly fetched blocks that are cross-checked against a second source before caching
+const VERIFY_SAMPLE_RATE = Math.min(1, Math.max(0, parseFloat(process.env.BLOCK_VERIFY_SAMPLE_RATE || "0.02") || 0));
+const FEE_TOLERANCE_DASH = 0.00000001;
+
+export type BackfillStatus = "idle" | "running" | "paused" | "cancelled" | "complete" | "error";
+
+interface BackfillProgress {
+  // Oldest cached height when this backfill began; progress is measured from here to the target
+  startHeight: number;
+  totalNeeded: number;
+  totalDone: number;
+  oldestHeight: number;
+  targetHeight: number;
+  status: BackfillStatus;
+  updatedAt: number;
+}
+
+type BackfillStopRequest = "paused" | "cancelled" | null;
+
 let backfillRunning = false;
-let backfillProgress = { totalNeeded: 0, totalDone: 0, oldestHeight: 0, targetHeight: 0, status: "idle" as string };
+// Set from the admin console on any instance (through sync_state); the backfill loop stops at
+// the next batch boundary
+let backfillStopRequest: BackfillStopRequest = null;
+let gapRepairRunning = false;
+let backfillProgress: BackfillProgress = {
+  startHeight: 0,
+  totalNeeded: 0,
+  totalDone: 0,
+  oldestHeight: 0,
+  targetHeight: 0,
+  status: "idle",
+  updatedAt: 0,
+};
 let rpcAvailable: boolean | null = null;
 
 let cachedDashPrice: { usd: number; fetchedAt: number } | null = null;
@@ -27,6 +80,8 @@ export async function fetchDashPriceUsd(): Promise<number> {
     const price = parseFloat(data?.last_price_usd) || 0;
     if (price > 0) {
       cachedDashPrice = { usd: price, fetchedAt: Date.now() };
+      recordPrice(price, "coincodex").catch((err: any) => log(`Price history write failed: ${err.message}`, "dashService"));
+      publishEvent({ type: "price-update", usd: price, time: Date.now() });
     }
     return price;
   } catch (err: any) {
@@ -35,7 +90,55 @@ export async function fetchDashPriceUsd(): Promise<number> {
   }
 }
 
-async function fetchJson(url: string, timeoutMs = 20_000): Promise<any> {
+export const QUOTE_CURRENCIES = ["USD", "EUR", "GBP", "BRL", "ARS", "MXN", "COP", "BTC"] as const;
+export type QuoteCurrency = typeof QUOTE_CURRENCIES[number];
+
+let cachedQuoteRates: { rates: Partial<Record<QuoteCurrency, number>>; fetchedAt: number } | null = null;
+
+export function parseQuoteCurrency(value: unknown): QuoteCurrency {
+  const upper = String(value || "").toUpperCase();
+  return (QUOTE_CURRENCIES as readonly string[]).includes(upper) ? upper as QuoteCurrency : "USD";
+}
+
+// Price of one DASH in every quote currency. USD always comes from fetchDashPriceUsd so it
+// matches the stored price history; the rest come from CoinGecko in a single request.
+export async function fetchQuoteRates(): Promise<Partial<Record<QuoteCurrency, number>>> {
+  const usd = await fetchDashPriceUsd();
+  if (cachedQuoteRates && Date.now() - cachedQuoteRates.fetchedAt < PRICE_CACHE_MS) {
+    return { ...cachedQuoteRates.rates, USD: usd || cachedQuoteRates.rates.USD };
+  }
+
+  const rates: Partial<Record<QuoteCurrency, number>> = {};
+  try {
+    const vs = QUOTE_CURRENCIES.map((c) => c.toLowerCase()).join(",");
+    const data = await fetchJson(`https://api.coingecko.com/api/v3/simple/price?ids=dash&vs_currencies=${vs}`, 10_000);
+    for (const currency of QUOTE_CURRENCIES) {
+      const price = parseFloat(data?.dash?.[currency.toLowerCase()]);
+      if (price > 0) rates[currency] = price;
+    }
+    cachedQuoteRates = { rates, fetchedAt: Date.now() };
+  } catch (err: any) {
+    log(`Quote rates fetch error: ${err.message}`, "dashService");
+    Object.assign(rates, cachedQuoteRates?.rates);
+  }
+  if (usd > 0) rates.USD = usd;
+  return rates;
+}
+
+// Converts USD amounts into `currency` at today's exchange rate. Historic prices are only
+// stored in USD, so at-time valuations in other currencies use the current FX cross rate.
+export async function getQuoteConversion(currency: QuoteCurrency) {
+  const rates = await fetchQuoteRates();
+  const usd = rates.USD || 0;
+  const quote = rates[currency];
+  if (currency !== "USD" && quote && usd) {
+    return { currency, dashPrice: quote, usdToQuote: quote / usd, dashPriceUsd: usd };
+  }
+  // Falls back to USD when the requested quote is unavailable; callers report the currency used
+  return { currency: "USD" as QuoteCurrency, dashPrice: usd, usdToQuote: 1, dashPriceUsd: usd };
+}
+
+export async function fetchJson(url: string, timeoutMs = 20_000): Promise<any> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
   try {
@@ -50,7 +153,7 @@ async function fetchJson(url: string, timeoutMs = 20_000): Promise<any> {
   }
 }
 
-function getRpcConfig() {
+export function getRpcConfig() {
   const rawUrl = process.env.DASH_RPC_URL || "";
   const url = rawUrl.startsWith("http") ? rawUrl : "http://" + rawUrl;
   const user = process.env.DASH_RPC_USER || "";
@@ -60,7 +163,7 @@ function getRpcConfig() {
   return { url: finalUrl, user, pass, configured: !!(rawUrl && user && pass) };
 }
 
-async function rpcCall(method: string, params: any[] = [], timeoutMs = 30_000): Promise<any> {
+export async function rpcCall(method: string, params: any[] = [], timeoutMs = 30_000): Promise<any> {
   const config = getRpcConfig();
   if (!config.configured) throw new Error("RPC not configured");
 
@@ -84,7 +187,7 @@ async function rpcCall(method: string, params: any[] = [], timeoutMs = 30_000):
   }
 }
 
-async function checkRpcAvailability(): Promise<boolean> {
+export async function checkRpcAvailability(): Promise<boolean> {
   if (rpcAvailable !== null) return rpcAvailable;
   const config = getRpcConfig();
   if (!config.configured) {
@@ -103,11 +206,14 @@ async function checkRpcAvailability(): Promise<boolean> {
   }
 }
 
-setInterval(() => {
+// Lets the next sync probe RPC again after it was found unavailable, and pings the RPC block
+// source so its health score recovers even while another source is taking the traffic
+export async function resetRpcAvailability() {
   if (!rpcAvailable) {
     rpcAvailable = null;
   }
-}, 5 * 60 * 1000);
+  return { rpcReachable: await probeSource("rpc") };
+}
 
 async function getSyncValue(key: string): Promise<string | null> {
   const rows = await db.select().from(syncState).where(eq(syncState.key, key));
@@ -184,9 +290,32 @@ export async function fetchPlatformValidators() {
   }
 }
 
-let cachedMnCounts: { total: number; enabled: number; evoTotal: number; evoEnabled: number; fetchedAt: number } | null = null;
+interface MasternodeCounts {
+  total: number;
+  enabled: number;
+  evoTotal: number;
+  evoEnabled: number;
+}
+
+let cachedMnCounts: (MasternodeCounts & { fetchedAt: number }) | null = null;
 const MN_COUNT_CACHE_MS = 300_000;
 
+async function recordMasternodeCounts(counts: MasternodeCounts, source: string) {
+  cachedMnCounts = { ...counts, fetchedAt: Date.now() };
+  try {
+    await db.insert(masternodeCountSnapshots).values({
+      takenAt: cachedMnCounts.fetchedAt,
+      source,
+      ...counts,
+      poseBanned: Math.max(0, counts.total - counts.enabled),
+      evoPoseBanned: Math.max(0, counts.evoTotal - counts.evoEnabled),
+    });
+    await saveMasternodeCounts({ totalMasternodes: counts.enabled, evoNodes: counts.evoEnabled });
+  } catch (err: any) {
+    log(`Failed to record masternode counts: ${err.message}`, "dashService");
+  }
+}
+
 export async function fetchMasternodeCounts(): Promise<{ totalMasternodes: number; evoNodes: number }> {
   if (cachedMnCounts && Date.now() - cachedMnCounts.fetchedAt < MN_COUNT_CACHE_MS) {
     return { totalMasternodes: cachedMnCounts.enabled, evoNodes: cachedMnCounts.evoEnabled };
@@ -198,7 +327,7 @@ export async function fetchMasternodeCounts(): Promise<{ totalMasternodes: numbe
     const weighted = dcData?.general?.consensus_masternodes_weighted || 0;
     if (unique > 0 && weighted > 0) {
       const evoCount = Math.round((weighted - unique) / 3);
-      cachedMnCounts = { total: unique, enabled: unique, evoTotal: evoCount, evoEnabled: evoCount, fetchedAt: Date.now() };
+      await recordMasternodeCounts({ total: unique, enabled: unique, evoTotal: evoCount, evoEnabled: evoCount }, "dashcentral");
       log(`DashCentral MN count: ${unique} unique, ${weighted} weighted, ${evoCount} EVO nodes`, "dashService");
       return { totalMasternodes: unique, evoNodes: evoCount };
     }
@@ -213,18 +342,25 @@ export async function fetchMasternodeCounts(): Promise<{ totalMasternodes: numbe
       const total = countResult?.total || 0;
       const enabled = countResult?.enabled || countResult?.stable || total;
 
-      let evoEnabled = 0;
-      const protxList = await rpcCall("protx", ["list", "registered", true]);
-      if (Array.isArray(protxList)) {
-        for (const entry of protxList) {
-          const isEvo = entry.type === 1 || entry.type === "evo" || entry.state?.type === 1;
-          if (isEvo && (entry.state?.status === 0 || entry.state?.PoSePenalty === 0)) {
-            evoEnabled++;
+      let evoTotal = countResult?.detailed?.evo?.total;
+      let evoEnabled = countResult?.detailed?.evo?.enabled;
+      if (evoTotal == null || evoEnabled == null) {
+        evoTotal = 0;
+        evoEnabled = 0;
+        const protxList = await rpcCall("protx", ["list", "registered", true]);
+        if (Array.isArray(protxList)) {
+          for (const entry of protxList) {
+            const isEvo = entry.type === 1 || entry.type === "evo" || entry.state?.type === 1;
+            if (!isEvo) continue;
+            evoTotal++;
+            if (entry.state?.status === 0 || entry.state?.PoSePenalty === 0) {
+              evoEnabled++;
+            }
           }
         }
       }
 
-      cachedMnCounts = { total, enabled, evoTotal: evoEnabled, evoEnabled, fetchedAt: Date.now() };
+      await recordMasternodeCounts({ total, enabled, evoTotal, evoEnabled }, "rpc");
       log(`RPC MN count: ${enabled} total MNs, ${evoEnabled} EVO nodes`, "dashService");
       return { totalMasternodes: enabled, evoNodes: evoEnabled };
     } catch (err: any) {
@@ -275,144 +411,214 @@ export async function fetchPlatformGasHistory(timespan: string) {
 }
 
 export async function fetchCoreStatus(): Promise<{ height: number } | null> {
-  const useRpc = await checkRpcAvailability();
-  if (useRpc) {
-    try {
-      const height = await rpcCall("getblockcount");
-      return { height };
-    } catch (err: any) {
-      log(`RPC getblockcount error: ${err.message}`, "dashService");
-    }
-  }
-  try {
-    const data = await fetchJson(`${INSIGHT_BASE}/status`);
-    if (data?.info?.blocks) return { height: data.info.blocks };
-  } catch {}
-  try {
-    const data = await fetchJson("https://dashblockexplorer.com/api/v2", 10_000);
-    if (data?.blockbook?.bestHeight) return { height: data.blockbook.bestHeight };
-  } catch {}
+  const height = await fetchTipHeight();
+  if (height) return { height };
   log("All core status sources failed", "dashService");
   return null;
 }
 
-interface BlockData {
-  hash: string;
-  height: number;
-  time: number;
-  txCount: number;
-  totalFees: number;
-  subsidy: number;
+function blockDataToRow(block: BlockData) {
+  return {
+    hash: block.hash,
+    height: block.height,
+    time: block.time,
+    totalFees: block.totalFees,
+    reward: block.subsidy + block.totalFees,
+    txCount: block.txCount,
+  };
 }
 
-async function fetchBlockViaRpc(height: number): Promise<BlockData | null> {
+async function insertBlockRow(row: ReturnType<typeof blockDataToRow>): Promise<boolean> {
   try {
-    const stats = await rpcCall("getblockstats", [height]);
-    return {
-      hash: stats.blockhash,
-      height: stats.height,
-      time: stats.time,
-      txCount: stats.txs,
-      totalFees: stats.totalfee / SATOSHIS_PER_DASH,
-      subsidy: stats.subsidy / SATOSHIS_PER_DASH,
-    };
-  } catch (err: any) {
-    return null;
+    await db.insert(coreBlockFees).values(row).onConflictDoNothing();
+    return true;
+  } catch {
+    return false;
   }
 }
 
-async function fetchBlockViaInsight(height: number): Promise<BlockData | null> {
-  try {
-    const indexData = await fetchJson(`${INSIGHT_BASE}/block-index/${height}`, 15_000);
-    if (!indexData?.blockHash) return null;
+function diffBlockRows(a: ReturnType<typeof blockDataToRow>, b: ReturnType<typeof blockDataToRow>): string[] {
+  const fields: string[] = [];
+  if (a.hash !== b.hash) fields.push("hash");
+  if (a.time !== b.time) fields.push("time");
+  if (a.txCount !== b.txCount) fields.push("txCount");
+  if (Math.abs(a.totalFees - b.totalFees) > FEE_TOLERANCE_DASH) fields.push("totalFees");
+  return fields;
+}
 
-    const block = await fetchJson(`${INSIGHT_BASE}/block/${indexData.blockHash}`, 15_000);
-    if (!block) return null;
+async function verifyBlock(block: BlockData): Promise<void> {
+  const other = await fetchBlockExcluding(block.height, [block.source]);
+  if (!other) return;
 
-    const subsidy = getBlockSubsidy(block.height);
-    const coinbaseSubsidy = isSuperblock(block.height) ? subsidy : subsidy * 0.8;
+  const primary = blockDataToRow(block);
+  const secondary = blockDataToRow(other);
+  const fields = diffBlockRows(primary, secondary);
+  if (fields.length === 0) return;
 
-    let totalFees = 0;
-    if (isSuperblock(block.height)) {
-      totalFees = 0;
-    } else if (block.tx?.[0]) {
-      try {
-        const cbTx = await fetchJson(`${INSIGHT_BASE}/tx/${block.tx[0]}`, 15_000);
-        if (cbTx?.vout) {
-          const coinbaseTotal = cbTx.vout.reduce((s: number, v: any) => s + (parseFloat(v.value) || 0), 0);
-          totalFees = Math.max(0, coinbaseTotal - coinbaseSubsidy);
-        }
-      } catch {}
+  const pick = (row: typeof primary) => JSON.stringify({
+    hash: row.hash,
+    time: row.time,
+    txCount: row.txCount,
+    totalFees: row.totalFees,
+  });
+  await db.insert(blockDiscrepancies).values({
+    height: block.height,
+    detectedAt: Date.now(),
+    primarySource: block.source,
+    secondarySource: other.source,
+    fields: fields.join(","),
+    primaryValues: pick(primary),
+    secondaryValues: pick(secondary),
+  });
+  log(`Block ${block.height} mismatch between ${block.source} and ${other.source}: ${fields.join(", ")}`, "dashService");
+}
+
+async function cacheBlock(block: BlockData): Promise<boolean> {
+  if (VERIFY_SAMPLE_RATE > 0 && Math.random() < VERIFY_SAMPLE_RATE) {
+    try {
+      await verifyBlock(block);
+    } catch (err: any) {
+      log(`Block ${block.height} verification error: ${err.message}`, "dashService");
+    }
+  }
+  const inserted = await insertBlockRow(blockDataToRow(block));
+  if (inserted) markRollupsDirty(block.time);
+  if (inserted && isSuperblock(block.height)) {
+    try {
+      await recordSuperblockPayouts(block);
+    } catch (err: any) {
+      log(`Superblock ${block.height} payout ingestion error: ${err.message}`, "dashService");
+    }
+  }
+  if (inserted) {
+    try {
+      await recordMasternodePayments(block);
+    } catch (err: any) {
+      log(`Block ${block.height} masternode payment ingestion error: ${err.message}`, "dashService");
     }
+    try {
+      await recordBlockTransactions(block);
+    } catch (err: any) {
+      log(`Block ${block.height} transaction ingestion error: ${err.message}`, "dashService");
+    }
+  }
+  return inserted;
+}
 
-    return {
-      hash: block.hash,
-      height: block.height,
-      time: block.time,
-      txCount: block.tx?.length || 0,
-      totalFees,
-      subsidy: coinbaseSubsidy,
-    };
+async function refreshRollups(): Promise<void> {
+  try {
+    const days = await flushRollups();
+    if (days > 0) log(`Refreshed fee rollups for ${days} day(s)`, "dashService");
   } catch (err: any) {
-    return null;
+    log(`Fee rollup refresh error: ${err.message}`, "dashService");
   }
 }
 
-async function fetchBlock(height: number): Promise<BlockData | null> {
-  const useRpc = await checkRpcAvailability();
-  if (useRpc) {
-    const result = await fetchBlockViaRpc(height);
-    if (result) return result;
+async function fetchBlocksBatched(heights: number[], batchSize: number, batchDelay: number): Promise<BlockData[]> {
+  const fetched: BlockData[] = [];
+  for (let i = 0; i < heights.length; i += batchSize) {
+    const batch = heights.slice(i, i + batchSize).map((h) => fetchBlock(h));
+    const results = await Promise.allSettled(batch);
+    for (const r of results) {
+      if (r.status === "fulfilled" && r.value) fetched.push(r.value);
+    }
+    if (i + batchSize < heights.length) await delay(batchDelay);
   }
-  return fetchBlockViaInsight(height);
+  return fetched.sort((a, b) => a.height - b.height);
 }
 
-export function getBlockSubsidy(height: number): number {
-  const nSubsidyBase = 5;
-  const reductionInterval = 210240;
-  const reductions = Math.floor(height / reductionInterval);
-  let subsidy = nSubsidyBase;
-  for (let i = 0; i < reductions; i++) {
-    subsidy = subsidy - subsidy / 14;
-  }
-  return subsidy;
+async function getCachedHashesAt(height: number): Promise<string[]> {
+  const rows = await db.select({ hash: coreBlockFees.hash })
+    .from(coreBlockFees)
+    .where(eq(coreBlockFees.height, height));
+  return rows.map((r) => r.hash);
 }
 
-function isSuperblock(height: number): boolean {
-  const superblockCycle = 16616;
-  return height % superblockCycle === 0;
+async function hasMatchingParent(block: BlockData): Promise<boolean> {
+  if (!block.prevHash) return true;
+  const parents = await getCachedHashesAt(block.height - 1);
+  return parents.length === 0 || parents.includes(block.prevHash);
 }
 
-function blockDataToRow(block: BlockData) {
-  const fees = isSuperblock(block.height) ? 0 : block.totalFees;
-  return {
-    hash: block.hash,
-    height: block.height,
-    time: block.time,
-    totalFees: fees,
-    reward: block.subsidy + fees,
-    txCount: block.txCount,
+// Walks back from `fromHeight` to the last height where the cache agrees with the
+// live chain, drops everything above it and returns that fork height (null if no reorg).
+async function resolveReorg(fromHeight: number, chainHeight: number): Promise<number | null> {
+  const isConsistent = async (height: number): Promise<boolean | null> => {
+    const cached = await getCachedHashesAt(height);
+    if (cached.length === 0) return true;
+    const chainHash = await fetchBlockHash(height);
+    if (!chainHash) return null;
+    return cached.every((h) => h === chainHash);
   };
-}
 
-async function insertBlockRow(row: ReturnType<typeof blockDataToRow>): Promise<boolean> {
-  try {
-    await db.insert(coreBlockFees).values(row).onConflictDoNothing();
-    return true;
-  } catch {
-    return false;
+  const tipOk = await isConsistent(fromHeight);
+  if (tipOk !== false) return null;
+
+  let forkHeight = fromHeight - 1;
+  while (fromHeight - forkHeight <= MAX_REORG_DEPTH) {
+    const ok = await isConsistent(forkHeight);
+    if (ok === null) {
+      log(`Reorg check at height ${forkHeight} aborted: block hash unavailable`, "dashService");
+      return null;
+    }
+    if (ok) break;
+    forkHeight--;
+  }
+  if (fromHeight - forkHeight > MAX_REORG_DEPTH) {
+    log(`Chain mismatch deeper than ${MAX_REORG_DEPTH} blocks below ${fromHeight}, not rolling back`, "dashService");
+    return null;
   }
+
+  const [oldTip] = await db.select({ hash: coreBlockFees.hash, height: coreBlockFees.height })
+    .from(coreBlockFees)
+    .orderBy(desc(coreBlockFees.height))
+    .limit(1);
+  const newTipHash = await fetchBlockHash(chainHeight);
+
+  const deleted = await db.delete(coreBlockFees)
+    .where(gt(coreBlockFees.height, forkHeight))
+    .returning({ hash: coreBlockFees.hash, time: coreBlockFees.time });
+  for (const row of deleted) markRollupsDirty(row.time);
+  await db.delete(coreTransactions).where(gt(coreTransactions.height, forkHeight));
+  await db.delete(coreBlockTxTypes).where(gt(coreBlockTxTypes.height, forkHeight));
+  await db.delete(superblockPayouts).where(gt(superblockPayouts.height, forkHeight));
+  await db.delete(masternodePayments).where(gt(masternodePayments.height, forkHeight));
+
+  await db.insert(coreReorgs).values({
+    detectedAt: Date.now(),
+    forkHeight,
+    depth: (oldTip?.height ?? fromHeight) - forkHeight,
+    oldTipHeight: oldTip?.height ?? fromHeight,
+    oldTipHash: oldTip?.hash ?? "",
+    newTipHeight: chainHeight,
+    newTipHash: newTipHash ?? "",
+  });
+
+  log(`Reorg detected: fork at ${forkHeight}, removed ${deleted.length} orphaned blocks`, "dashService");
+  return forkHeight;
+}
+
+function publishBlock(block: BlockData) {
+  publishEvent({
+    type: "new-block",
+    block: { height: block.height, time: block.time, fees: block.totalFees, reward: block.subsidy + block.totalFees, txCount: block.txCount },
+  });
 }
 
 export async function syncNewCoreBlocks(): Promise<number> {
   try {
     const [maxRow] = await db.select({ maxH: sql<number>`MAX(${coreBlockFees.height})` }).from(coreBlockFees);
-    const highestCached = maxRow?.maxH || 0;
+    let highestCached = maxRow?.maxH || 0;
 
     const status = await fetchCoreStatus();
     if (!status?.height) return 0;
     const currentHeight = status.height;
 
+    if (highestCached) {
+      const forkHeight = await resolveReorg(Math.min(highestCached, currentHeight), currentHeight);
+      if (forkHeight !== null) highestCached = forkHeight;
+    }
+
     if (highestCached && currentHeight <= highestCached) return 0;
 
     const toFetch = highestCached ? Math.min(currentHeight - highestCached, 50) : 20;
@@ -423,19 +629,23 @@ export async function syncNewCoreBlocks(): Promise<number> {
     const batchSize = useRpc ? 10 : 2;
     const batchDelay = useRpc ? 100 : 2000;
 
-    for (let i = 0; i < toFetch; i += batchSize) {
-      const batch: Promise<BlockData | null>[] = [];
-      for (let j = i; j < Math.min(i + batchSize, toFetch); j++) {
-        batch.push(fetchBlock(startHeight - j));
-      }
-      const results = await Promise.allSettled(batch);
-      for (const r of results) {
-        if (r.status === "fulfilled" && r.value) {
-          const row = blockDataToRow(r.value);
-          if (await insertBlockRow(row)) inserted++;
+    const heights: number[] = [];
+    for (let j = 0; j < toFetch; j++) heights.push(startHeight - j);
+    const fetched = await fetchBlocksBatched(heights, batchSize, batchDelay);
+
+    // Insert bottom-up so every block can be checked against its cached parent
+    for (const block of fetched) {
+      if (!(await hasMatchingParent(block))) {
+        const forkHeight = await resolveReorg(block.height - 1, currentHeight);
+        if (forkHeight !== null) {
+          log(`Forward sync stopped at ${block.height} after reorg, resuming from ${forkHeight} next run`, "dashService");
         }
+        break;
+      }
+      if (await cacheBlock(block)) {
+        inserted++;
+        publishBlock(block);
       }
-      if (i + batchSize < toFetch) await delay(batchDelay);
     }
 
     if (inserted > 0) {
@@ -445,18 +655,103 @@ export async function syncNewCoreBlocks(): Promise<number> {
   } catch (err: any) {
     log(`Forward sync error: ${err.message}`, "dashService");
     return 0;
+  } finally {
+    await refreshRollups();
+  }
+}
+
+// A block announced over ZMQ, by its own hash (hashblock) or its parent's (rawblock). One that
+// extends the cached tip is ingested straight from RPC; a gap, a reorg or a replaced block is
+// left to the forward sync, which handles all three.
+export async function ingestNotifiedBlock(notice: { hash: string } | { prevHash: string }): Promise<number> {
+  if (!(await checkRpcAvailability())) return syncNewCoreBlocks();
+
+  const header = await rpcCall("getblockheader", ["hash" in notice ? notice.hash : notice.prevHash]);
+  const height: number = "hash" in notice ? header.height : header.height + 1;
+  const cached = await getCachedHashesAt(height);
+  if ("hash" in notice ? cached.includes(notice.hash) : cached.length > 0) return 0;
+
+  const block = await fetchBlockFromSource("rpc", height);
+  const parents = await getCachedHashesAt(height - 1);
+  if (cached.length > 0 || parents.length === 0 || (block.prevHash && !parents.includes(block.prevHash))) {
+    return syncNewCoreBlocks();
+  }
+
+  if (!(await cacheBlock(block))) return 0;
+  publishBlock(block);
+  await refreshRollups();
+  log(`Ingested block ${height} from ZMQ notification`, "dashService");
+  return 1;
+}
+
+// Progress lives in sync_state so the admin console and the next process see where it stopped
+async function saveBackfillState() {
+  backfillProgress.updatedAt = Date.now();
+  await setSyncValue("backfill_state", JSON.stringify(backfillProgress));
+  publishEvent({
+    type: "backfill-progress",
+    progress: { ...backfillProgress, running: backfillRunning, stopRequested: backfillStopRequest },
+  });
+}
+
+// The running instance's copy is authoritative; every other instance re-reads what it saved
+async function loadBackfillState(): Promise<BackfillProgress> {
+  if (!backfillRunning) {
+    const saved = await getSyncValue("backfill_state");
+    if (saved) {
+      try {
+        backfillProgress = { ...backfillProgress, ...JSON.parse(saved) };
+      } catch {}
+    }
   }
+  return backfillProgress;
 }
 
-export async function startCoreBackfill(): Promise<void> {
+async function readStopRequest(): Promise<BackfillStopRequest> {
+  const value = await getSyncValue("backfill_stop_request");
+  return value === "paused" || value === "cancelled" ? value : null;
+}
+
+// Pause, cancel and retarget can be requested on any instance, so they're re-read every batch
+async function continueBackfill(currentHeight: number): Promise<boolean> {
+  backfillStopRequest = backfillStopRequest ?? await readStopRequest();
+  const target = await getSyncValue("backfill_target_height");
+  if (target) setBackfillTarget(parseInt(target));
+  return currentHeight >= backfillProgress.targetHeight && !backfillStopRequest;
+}
+
+function setBackfillTarget(targetHeight: number) {
+  backfillProgress.targetHeight = targetHeight;
+  backfillProgress.totalNeeded = Math.max(0, backfillProgress.startHeight - targetHeight);
+}
+
+// `auto` is the startup path: a backfill paused or cancelled from the admin console stays stopped
+export async function startCoreBackfill(options: { auto?: boolean } = {}): Promise<void> {
   if (backfillRunning) {
     log("Backfill already running, skipping", "dashService");
     return;
   }
-
+  // Claimed before the first await so a concurrent start can't pass the check above
   backfillRunning = true;
 
+  let saved: BackfillProgress;
+  try {
+    saved = await loadBackfillState();
+  } catch (err: any) {
+    backfillRunning = false;
+    throw err;
+  }
+  if (options.auto && (saved.status === "paused" || saved.status === "cancelled")) {
+    log(`Backfill was ${saved.status} from the admin console, not resuming on startup`, "dashService");
+    backfillRunning = false;
+    return;
+  }
+
   try {
+    // Whatever a previous run left unanswered doesn't apply to this one
+    backfillStopRequest = null;
+    await setSyncValue("backfill_stop_request", "");
+
     const [minRow] = await db.select({ minH: sql<number>`MIN(${coreBlockFees.height})` }).from(coreBlockFees);
     let oldestCached = minRow?.minH;
 
@@ -469,21 +764,30 @@ export async function startCoreBackfill(): Promise<void> {
     const targetHeight = await estimateTargetHeight();
     if (oldestCached <= targetHeight) {
       log(`Backfill complete: oldest block ${oldestCached} <= target ${targetHeight}`, "dashService");
-      backfillProgress.status = "complete";
+      backfillProgress = { ...backfillProgress, oldestHeight: oldestCached, status: "complete" };
+      setBackfillTarget(targetHeight);
+      backfillProgress.totalDone = backfillProgress.totalNeeded;
+      await saveBackfillState();
       backfillRunning = false;
       return;
     }
 
-    const totalNeeded = oldestCached - targetHeight;
+    // A paused, interrupted or failed run carries on with its original starting point
+    const resuming = saved.status === "running" || saved.status === "paused" || saved.status === "error";
     backfillProgress = {
-      totalNeeded,
-      totalDone: 0,
+      ...backfillProgress,
+      startHeight: resuming && saved.startHeight >= oldestCached ? saved.startHeight : oldestCached,
       oldestHeight: oldestCached,
-      targetHeight,
       status: "running",
     };
+    setBackfillTarget(targetHeight);
+    backfillProgress.totalDone = backfillProgress.startHeight - oldestCached;
+    await saveBackfillState();
 
-    log(`Starting backfill: ${totalNeeded} blocks from height ${oldestCached} down to ${targetHeight}`, "dashService");
+    await recordJobEvent(
+      "backfill",
+      `${resuming ? "Resuming" : "Starting"} backfill: ${oldestCached - targetHeight} blocks from height ${oldestCached} down to ${targetHeight}`,
+    );
 
     let currentHeight = oldestCached - 1;
     let consecutiveErrors = 0;
@@ -496,9 +800,9 @@ export async function startCoreBackfill(): Promise<void> {
 
     log(`Backfill using ${useRpc ? "Dash Core RPC" : "Insight API"} (batch=${BATCH_SIZE})`, "dashService");
 
-    while (currentHeight >= targetHeight && backfillRunning) {
+    while (await continueBackfill(currentHeight)) {
       const batch: Promise<BlockData | null>[] = [];
-      for (let i = 0; i < BATCH_SIZE && currentHeight - i >= targetHeight; i++) {
+      for (let i = 0; i < BATCH_SIZE && currentHeight - i >= backfillProgress.targetHeight; i++) {
         batch.push(fetchBlock(currentHeight - i));
       }
 
@@ -509,8 +813,7 @@ export async function startCoreBackfill(): Promise<void> {
       for (const r of results) {
         if (r.status === "fulfilled" && r.value) {
           if (r.value.time >= JAN_1_2026_UNIX) {
-            const row = blockDataToRow(r.value);
-            if (await insertBlockRow(row)) batchInserted++;
+            if (await cacheBlock(r.value)) batchInserted++;
           }
         } else {
           anyFailed = true;
@@ -527,14 +830,18 @@ export async function startCoreBackfill(): Promise<void> {
 
       consecutiveErrors = 0;
       totalInserted += batchInserted;
-      currentHeight -= BATCH_SIZE;
+      currentHeight -= batch.length;
 
-      backfillProgress.totalDone = (oldestCached - 1) - currentHeight;
       backfillProgress.oldestHeight = currentHeight + 1;
+      backfillProgress.totalDone = backfillProgress.startHeight - backfillProgress.oldestHeight;
 
       if (totalInserted % 200 === 0 && totalInserted > 0) {
         await setSyncValue("backfill_oldest_height", String(currentHeight));
-        const pct = ((backfillProgress.totalDone / backfillProgress.totalNeeded) * 100).toFixed(1);
+        await saveBackfillState();
+        await refreshRollups();
+        const pct = backfillProgress.totalNeeded > 0
+          ? ((backfillProgress.totalDone / backfillProgress.totalNeeded) * 100).toFixed(1)
+          : "100.0";
         log(`Backfill progress: ${totalInserted} blocks, height ${currentHeight}, ${pct}%`, "dashService");
       }
 
@@ -542,14 +849,44 @@ export async function startCoreBackfill(): Promise<void> {
     }
 
     await setSyncValue("backfill_oldest_height", String(currentHeight));
-    backfillProgress.status = currentHeight <= targetHeight ? "complete" : "paused";
-    log(`Backfill done: ${totalInserted} blocks inserted, now at height ${currentHeight}`, "dashService");
+    backfillProgress.status = backfillStopRequest ?? (currentHeight < backfillProgress.targetHeight ? "complete" : "paused");
+    await saveBackfillState();
+    await recordJobEvent("backfill", `Backfill ${backfillProgress.status}: ${totalInserted} blocks inserted, now at height ${currentHeight + 1}`);
   } catch (err: any) {
-    log(`Backfill error: ${err.message}`, "dashService");
     backfillProgress.status = "error";
+    await saveBackfillState().catch(() => {});
+    await recordJobEvent("backfill", `Backfill error: ${err.message}`, "error");
   } finally {
     backfillRunning = false;
+    backfillStopRequest = null;
+    await refreshRollups();
+  }
+}
+
+// Stops a running backfill at the next batch. A paused backfill resumes from where it stopped
+// when started again; a cancelled one starts a fresh progress count.
+export async function stopCoreBackfill(status: "paused" | "cancelled"): Promise<boolean> {
+  const saved = await loadBackfillState();
+  // A backfill running on another instance picks the request up from sync_state
+  if (backfillRunning || (saved.status === "running" && await isJobRunning("core-backfill"))) {
+    if (backfillRunning) backfillStopRequest = status;
+    await setSyncValue("backfill_stop_request", status);
+    await recordJobEvent("backfill", `Backfill ${status === "paused" ? "pause" : "cancel"} requested`);
+    return true;
   }
+  if (saved.status === "complete" || saved.status === status) return false;
+  backfillProgress.status = status;
+  await saveBackfillState();
+  await recordJobEvent("backfill", `Backfill ${status} while idle`);
+  return true;
+}
+
+export async function retargetCoreBackfill(targetHeight: number) {
+  await loadBackfillState();
+  await setSyncValue("backfill_target_height", String(targetHeight));
+  setBackfillTarget(targetHeight);
+  await saveBackfillState();
+  await recordJobEvent("backfill", `Backfill target set to height ${targetHeight}`);
 }
 
 async function estimateTargetHeight(): Promise<number> {
@@ -572,8 +909,17 @@ async function estimateTargetHeight(): Promise<number> {
   return 2396800;
 }
 
-export function getBackfillProgress() {
-  return { ...backfillProgress, running: backfillRunning };
+export async function getBackfillProgress() {
+  await loadBackfillState();
+  if (backfillRunning) {
+    return { ...backfillProgress, running: true, stopRequested: backfillStopRequest };
+  }
+  const runningElsewhere = backfillProgress.status === "running" && await isJobRunning("core-backfill");
+  return {
+    ...backfillProgress,
+    running: runningElsewhere,
+    stopRequested: runningElsewhere ? await readStopRequest() : null,
+  };
 }
 
 export async function fetchRecentPlatformEpochs(count: number = 20) {
@@ -610,6 +956,74 @@ export async function fetchRecentPlatformEpochs(count: number = 20) {
   }
 }
 
+// Only a new epoch or a change to its fees is written and pushed to the live stream
+async function savePlatformEpoch(ep: any) {
+  const saved = await db.insert(platformEpochFees).values({
+    epochNumber: ep.epoch.number,
+    startTime: Number(ep.epoch.startTime),
+    endTime: Number(ep.epoch.endTime),
+    totalCollectedFees: Number(ep.totalCollectedFees || 0),
+    feeMultiplier: Number(ep.epoch.feeMultiplier || 1),
+  }).onConflictDoUpdate({
+    target: platformEpochFees.epochNumber,
+    set: {
+      totalCollectedFees: Number(ep.totalCollectedFees || 0),
+      endTime: Number(ep.epoch.endTime),
+    },
+    setWhere: sql`${platformEpochFees.totalCollectedFees} IS DISTINCT FROM excluded.total_collected_fees
+      OR ${platformEpochFees.endTime} IS DISTINCT FROM excluded.end_time`,
+  }).returning();
+  for (const row of saved) {
+    publishEvent({
+      type: "new-epoch",
+      epoch: {
+        epochNumber: row.epochNumber,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        fees: creditsToDash(row.totalCollectedFees),
+      },
+    });
+  }
+}
+
+let platformResyncRunning = false;
+
+export function isPlatformResyncRunning() {
+  return platformResyncRunning;
+}
+
+// Refetches every epoch in [fromEpoch, toEpoch] regardless of the Jan 1 cutoff the full sync stops at
+export async function resyncPlatformEpochs(fromEpoch: number, toEpoch: number): Promise<number> {
+  if (platformResyncRunning) return 0;
+  platformResyncRunning = true;
+  let saved = 0;
+  let failed = 0;
+  try {
+    await recordJobEvent("platform-resync", `Resyncing platform epochs ${fromEpoch}–${toEpoch}`);
+    for (let epochNum = fromEpoch; epochNum <= toEpoch; epochNum++) {
+      const ep = await fetchPlatformEpoch(epochNum);
+      if (ep?.epoch) {
+        await savePlatformEpoch(ep);
+        saved++;
+      } else {
+        failed++;
+      }
+      await delay(200);
+    }
+    await recordJobEvent(
+      "platform-resync",
+      `Platform epochs ${fromEpoch}–${toEpoch} resynced: ${saved} saved, ${failed} not returned by the explorer`,
+      failed > 0 ? "error" : "info",
+    );
+    return saved;
+  } catch (err: any) {
+    await recordJobEvent("platform-resync", `Platform resync error after ${saved} epochs: ${err.message}`, "error");
+    return saved;
+  } finally {
+    platformResyncRunning = false;
+  }
+}
+
 export async function syncAllPlatformEpochs(): Promise<number> {
   try {
     const status = await fetchPlatformStatus();
@@ -629,19 +1043,7 @@ export async function syncAllPlatformEpochs(): Promise<number> {
       }
 
       try {
-        await db.insert(platformEpochFees).values({
-          epochNumber: ep.epoch.number,
-          startTime: epochStartMs,
-          endTime: Number(ep.epoch.endTime),
-          totalCollectedFees: Number(ep.totalCollectedFees || 0),
-          feeMultiplier: Number(ep.epoch.feeMultiplier || 1),
-        }).onConflictDoUpdate({
-          target: platformEpochFees.epochNumber,
-          set: {
-            totalCollectedFees: Number(ep.totalCollectedFees || 0),
-            endTime: Number(ep.epoch.endTime),
-          },
-        });
+        await savePlatformEpoch(ep);
         inserted++;
       } catch {}
 
@@ -656,20 +1058,43 @@ export async function syncAllPlatformEpochs(): Promise<number> {
   }
 }
 
-export async function getCachedCoreFeeSeries(sinceTimestamp: number) {
+export async function getCachedCoreFeeSeries(sinceTimestamp: number, untilTimestamp?: number) {
   return db.select()
     .from(coreBlockFees)
-    .where(gte(coreBlockFees.time, sinceTimestamp))
+    .where(and(
+      gte(coreBlockFees.time, sinceTimestamp),
+      untilTimestamp != null ? lte(coreBlockFees.time, untilTimestamp) : undefined,
+    ))
     .orderBy(coreBlockFees.time);
 }
 
-export async function getCachedPlatformFeeSeries(sinceTimestamp: number) {
+export async function getCachedPlatformFeeSeries(sinceTimestamp: number, untilTimestamp?: number) {
   return db.select()
     .from(platformEpochFees)
-    .where(gte(platformEpochFees.startTime, sinceTimestamp))
+    .where(and(
+      gte(platformEpochFees.startTime, sinceTimestamp),
+      untilTimestamp != null ? lte(platformEpochFees.startTime, untilTimestamp) : undefined,
+    ))
     .orderBy(platformEpochFees.startTime);
 }
 
+// Snapshots inside the window plus the last one before it, so the start of the window has a count too
+export async function getMasternodeCountHistory(sinceMs: number, untilMs?: number) {
+  const [before] = await db.select()
+    .from(masternodeCountSnapshots)
+    .where(lt(masternodeCountSnapshots.takenAt, sinceMs))
+    .orderBy(desc(masternodeCountSnapshots.takenAt))
+    .limit(1);
+  const inRange = await db.select()
+    .from(masternodeCountSnapshots)
+    .where(and(
+      gte(masternodeCountSnapshots.takenAt, sinceMs),
+      untilMs != null ? lte(masternodeCountSnapshots.takenAt, untilMs) : undefined,
+    ))
+    .orderBy(asc(masternodeCountSnapshots.takenAt));
+  return before ? [before, ...inRange] : inRange;
+}
+
 export async function getCoreHeightRange() {
   const [row] = await db.select({
     minH: sql<number>`MIN(${coreBlockFees.height})`,
@@ -679,6 +1104,201 @@ export async function getCoreHeightRange() {
   return { min: row?.minH || 0, max: row?.maxH || 0, count: row?.count || 0 };
 }
 
+export async function findCoreHeightGaps(): Promise<Array<{ from: number; to: number; missing: number }>> {
+  const result = await db.execute<{ from: number; to: number }>(sql`
+    SELECT height + 1 AS "from", next_height - 1 AS "to"
+    FROM (
+      SELECT height, LEAD(height) OVER (ORDER BY height) AS next_height
+      FROM (SELECT DISTINCT ${coreBlockFees.height} AS height FROM ${coreBlockFees}) heights
+    ) pairs
+    WHERE next_height > height + 1
+    ORDER BY height DESC
+  `);
+  return result.rows.map((r) => {
+    const from = Number(r.from);
+    const to = Number(r.to);
+    return { from, to, missing: to - from + 1 };
+  });
+}
+
+export async function repairCoreGaps(maxBlocks: number = GAP_REPAIR_MAX_BLOCKS): Promise<number> {
+  if (gapRepairRunning) {
+    log("Gap repair already running, skipping", "dashService");
+    return 0;
+  }
+
+  gapRepairRunning = true;
+  try {
+    const gaps = await findCoreHeightGaps();
+    if (gaps.length === 0) return 0;
+
+    const heights: number[] = [];
+    for (const gap of gaps) {
+      for (let h = gap.to; h >= gap.from && heights.length < maxBlocks; h--) heights.push(h);
+      if (heights.length >= maxBlocks) break;
+    }
+
+    const useRpc = await checkRpcAvailability();
+    const fetched = await fetchBlocksBatched(heights, useRpc ? 10 : 2, useRpc ? 100 : 2000);
+
+    let inserted = 0;
+    for (const block of fetched) {
+      if (await cacheBlock(block)) inserted++;
+    }
+
+    const totalMissing = gaps.reduce((s, g) => s + g.missing, 0);
+    log(`Gap repair: filled ${inserted} of ${totalMissing} missing blocks across ${gaps.length} gaps`, "dashService");
+    return inserted;
+  } catch (err: any) {
+    log(`Gap repair error: ${err.message}`, "dashService");
+    return 0;
+  } finally {
+    gapRepairRunning = false;
+    await refreshRollups();
+  }
+}
+
+export function isGapRepairRunning() {
+  return gapRepairRunning;
+}
+
+export async function getCoreCoverage(sinceTimestamp: number, untilTimestamp?: number) {
+  const [row] = await db.select({
+    minH: sql<number>`MIN(${coreBlockFees.height})`,
+    maxH: sql<number>`MAX(${coreBlockFees.height})`,
+    minTime: sql<number>`MIN(${coreBlockFees.time})`,
+    maxTime: sql<number>`MAX(${coreBlockFees.time})`,
+    count: sql<number>`COUNT(DISTINCT ${coreBlockFees.height})`,
+  }).from(coreBlockFees).where(and(
+    gte(coreBlockFees.time, sinceTimestamp),
+    untilTimestamp != null ? lte(coreBlockFees.time, untilTimestamp) : undefined,
+  ));
+
+  const cachedBlocks = Number(row?.count || 0);
+  if (!cachedBlocks) return { expectedBlocks: 0, cachedBlocks: 0, missingBlocks: 0, percent: 0 };
+
+  const [before] = await db.select({ height: coreBlockFees.height })
+    .from(coreBlockFees)
+    .where(lt(coreBlockFees.time, sinceTimestamp))
+    .orderBy(desc(coreBlockFees.height))
+    .limit(1);
+
+  // Without a cached block preceding the window, estimate how many blocks are missing at its start
+  const firstHeight = before ? before.height + 1 : Number(row.minH);
+  const leadingEstimate = before ? 0 : Math.max(0, Math.round((Number(row.minTime) - sinceTimestamp) / TARGET_BLOCK_SPACING));
+
+  // Windows ending in the past get the same treatment at their end
+  let lastHeight = Number(row.maxH);
+  let trailingEstimate = 0;
+  if (untilTimestamp != null) {
+    const [after] = await db.select({ height: coreBlockFees.height })
+      .from(coreBlockFees)
+      .where(gt(coreBlockFees.time, untilTimestamp))
+      .orderBy(asc(coreBlockFees.height))
+      .limit(1);
+    if (after) {
+      lastHeight = after.height - 1;
+    } else {
+      const end = Math.min(untilTimestamp, Math.floor(Date.now() / 1000));
+      trailingEstimate = Math.max(0, Math.round((end - Number(row.maxTime)) / TARGET_BLOCK_SPACING));
+    }
+  }
+  const expectedBlocks = lastHeight - firstHeight + 1 + leadingEstimate + trailingEstimate;
+  const missingBlocks = Math.max(0, expectedBlocks - cachedBlocks);
+
+  return {
+    expectedBlocks,
+    cachedBlocks,
+    missingBlocks,
+    percent: expectedBlocks > 0 ? Math.min(100, (cachedBlocks / expectedBlocks) * 100) : 0,
+  };
+}
+
+// Superblocks cached before payout tracking existed had their fees zeroed and no payouts recorded
+export async function syncSuperblockPayouts(maxBlocks: number = 6): Promise<number> {
+  try {
+    const heights = await findSuperblocksMissingPayouts(maxBlocks);
+    let recorded = 0;
+    for (const height of heights) {
+      const block = await fetchBlock(height);
+      if (!block) continue;
+      const row = blockDataToRow(block);
+      await db.insert(coreBlockFees).values(row).onConflictDoUpdate({
+        target: coreBlockFees.hash,
+        set: { totalFees: row.totalFees, reward: row.reward },
+      });
+      markRollupsDirty(row.time);
+      recorded += await recordSuperblockPayouts(block);
+    }
+    await refreshRollups();
+    return recorded;
+  } catch (err: any) {
+    log(`Superblock payout sync error: ${err.message}`, "dashService");
+    return 0;
+  }
+}
+
+// Blocks cached before payment tracking, or fetched from a source that returned no coinbase
+export async function syncMasternodePayments(maxBlocks: number = 100): Promise<number> {
+  try {
+    const heights = await findBlocksMissingPayments(maxBlocks);
+    if (heights.length === 0) return 0;
+    const blocks = await fetchBlocksBatched(heights, 5, 500);
+    let recorded = 0;
+    for (const block of blocks) {
+      recorded += await recordMasternodePayments(block);
+    }
+    log(`Scanned ${blocks.length} coinbases, recorded ${recorded} masternode payments`, "dashService");
+    return recorded;
+  } catch (err: any) {
+    log(`Masternode payment sync error: ${err.message}`, "dashService");
+    return 0;
+  }
+}
+
+export async function getBlockDiscrepancies(onlyOpen: boolean, limit: number = 100) {
+  return db.select()
+    .from(blockDiscrepancies)
+    .where(onlyOpen ? isNull(blockDiscrepancies.resolvedAt) : undefined)
+    .orderBy(desc(blockDiscrepancies.detectedAt))
+    .limit(limit);
+}
+
+export async function refetchBlockFromSource(height: number, sourceName: string) {
+  const block = await fetchBlockFromSource(sourceName, height);
+  const row = blockDataToRow(block);
+
+  const replaced = await db.transaction(async (tx) => {
+    const old = await tx.delete(coreBlockFees)
+      .where(eq(coreBlockFees.height, height))
+      .returning({ time: coreBlockFees.time });
+    // Payouts are re-read from the new block: masternode payments below, superblock payouts by
+    // the next superblock-payouts job
+    await tx.delete(superblockPayouts).where(eq(superblockPayouts.height, height));
+    await tx.delete(masternodePayments).where(eq(masternodePayments.height, height));
+    await tx.insert(coreBlockFees).values(row);
+    return old;
+  });
+  for (const old of replaced) markRollupsDirty(old.time);
+  markRollupsDirty(row.time);
+  await refreshRollups();
+  await recordMasternodePayments(block);
+
+  await db.update(blockDiscrepancies)
+    .set({ resolvedAt: Date.now(), resolvedSource: sourceName })
+    .where(and(eq(blockDiscrepancies.height, height), isNull(blockDiscrepancies.resolvedAt)));
+
+  log(`Block ${height} re-fetched from ${sourceName} and overwritten in cache`, "dashService");
+  return row;
+}
+
+export async function getRecentReorgs(limit: number = 50) {
+  return db.select()
+    .from(coreReorgs)
+    .orderBy(desc(coreReorgs.detectedAt))
+    .limit(limit);
+}
+
 export function creditsToDash(credits: number): number {
   return credits / CREDITS_PER_DASH;
 }
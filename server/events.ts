@@ -0,0 +1,99 @@
+import type { Request, Response } from "express";
+import pg from "pg";
+import { log } from "./index";
+import { pool } from "./db";
+
+export interface LiveBlock {
+  height: number;
+  time: number;
+  fees: number;
+  reward: number;
+  txCount: number;
+}
+
+export interface LiveEpoch {
+  epochNumber: number;
+  startTime: number;
+  endTime: number;
+  fees: number;
+}
+
+export type LiveEvent =
+  | { type: "new-block"; block: LiveBlock }
+  | { type: "new-epoch"; epoch: LiveEpoch }
+  | { type: "price-update"; usd: number; time: number }
+  | { type: "backfill-progress"; progress: Record<string, unknown> };
+
+const CHANNEL = "dash_live_events";
+const HEARTBEAT_MS = 25_000;
+const LISTENER_RETRY_MS = 5000;
+
+const clients = new Set<Response>();
+let listener: pg.Client | null = null;
+let listening = false;
+
+function deliver(payload: string) {
+  const event: LiveEvent = JSON.parse(payload);
+  const frame = `event: ${event.type}\ndata: ${payload}\n\n`;
+  for (const res of Array.from(clients)) res.write(frame);
+}
+
+// The sync jobs run on whichever instance holds their lock, so events go through NOTIFY and every
+// instance's listener forwards them to its own stream clients
+function connectListener() {
+  if (listener) return;
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  listener = client;
+
+  const retry = (err?: Error) => {
+    if (listener !== client) return;
+    if (err) log(`Event listener error: ${err.message}`, "events");
+    listener = null;
+    listening = false;
+    client.end().catch(() => {});
+    setTimeout(connectListener, LISTENER_RETRY_MS);
+  };
+
+  client.on("notification", (msg) => {
+    if (msg.channel !== CHANNEL || !msg.payload) return;
+    try {
+      deliver(msg.payload);
+    } catch {}
+  });
+  client.on("error", retry);
+  client.on("end", () => retry());
+  client.connect()
+    .then(() => client.query(`LISTEN ${CHANNEL}`))
+    .then(() => {
+      listening = true;
+    })
+    .catch(retry);
+}
+
+export function publishEvent(event: LiveEvent) {
+  const payload = JSON.stringify(event);
+  // Without a listener NOTIFY wouldn't come back to this instance, so its clients get it directly
+  if (!listening) deliver(payload);
+  pool.query("SELECT pg_notify($1, $2)", [CHANNEL, payload])
+    .catch((err: any) => log(`Event publish error: ${err.message}`, "events"));
+}
+
+export function streamEvents(req: Request, res: Response) {
+  connectListener();
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+  clients.add(res);
+
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
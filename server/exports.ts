@@ -0,0 +1,172 @@
+import type { Response } from "express";
+import { once } from "events";
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from "hyparquet-writer";
+import { db } from "./db";
+import { coreBlockFees, platformEpochFees, type CoreBlockFee, type PlatformEpochFee } from "@shared/schema";
+import { and, asc, gt, gte, lte, sql } from "drizzle-orm";
+import { creditsToDash } from "./dashService";
+
+// Rows are read and written in batches of this size; each batch becomes one Parquet row group
+const EXPORT_BATCH_SIZE = 5000;
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "parquet"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  parquet: "application/vnd.apache.parquet",
+};
+
+interface ExportColumn<T> {
+  name: string;
+  type: "INT32" | "INT64" | "DOUBLE" | "STRING";
+  value: (row: T) => number | string;
+}
+
+const CORE_BLOCK_COLUMNS: ExportColumn<CoreBlockFee>[] = [
+  { name: "height", type: "INT32", value: (b) => b.height },
+  { name: "hash", type: "STRING", value: (b) => b.hash },
+  { name: "time", type: "INT64", value: (b) => b.time },
+  { name: "total_fees", type: "DOUBLE", value: (b) => b.totalFees },
+  { name: "reward", type: "DOUBLE", value: (b) => b.reward },
+  { name: "tx_count", type: "INT32", value: (b) => b.txCount },
+];
+
+const PLATFORM_EPOCH_COLUMNS: ExportColumn<PlatformEpochFee>[] = [
+  { name: "epoch_number", type: "INT32", value: (e) => e.epochNumber },
+  { name: "start_time", type: "INT64", value: (e) => e.startTime },
+  { name: "end_time", type: "INT64", value: (e) => e.endTime },
+  { name: "total_collected_fees", type: "INT64", value: (e) => e.totalCollectedFees },
+  { name: "total_collected_fees_dash", type: "DOUBLE", value: (e) => creditsToDash(e.totalCollectedFees) },
+  { name: "fee_multiplier", type: "INT32", value: (e) => e.feeMultiplier },
+];
+
+// Keyset pagination keeps each query cheap and the memory use flat however wide the window is
+async function* coreBlockBatches(sinceSeconds: number, untilSeconds: number): AsyncGenerator<CoreBlockFee[]> {
+  let last: CoreBlockFee | undefined;
+  while (true) {
+    const rows: CoreBlockFee[] = await db.select()
+      .from(coreBlockFees)
+      .where(and(
+        gte(coreBlockFees.time, sinceSeconds),
+        lte(coreBlockFees.time, untilSeconds),
+        last ? sql`(${coreBlockFees.height}, ${coreBlockFees.hash}) > (${last.height}, ${last.hash})` : undefined,
+      ))
+      .orderBy(asc(coreBlockFees.height), asc(coreBlockFees.hash))
+      .limit(EXPORT_BATCH_SIZE);
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+    last = rows[rows.length - 1];
+  }
+}
+
+async function* platformEpochBatches(sinceMs: number, untilMs: number): AsyncGenerator<PlatformEpochFee[]> {
+  let last: PlatformEpochFee | undefined;
+  while (true) {
+    const rows: PlatformEpochFee[] = await db.select()
+      .from(platformEpochFees)
+      .where(and(
+        gte(platformEpochFees.startTime, sinceMs),
+        lte(platformEpochFees.startTime, untilMs),
+        last ? gt(platformEpochFees.epochNumber, last.epochNumber) : undefined,
+      ))
+      .orderBy(asc(platformEpochFees.epochNumber))
+      .limit(EXPORT_BATCH_SIZE);
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+    last = rows[rows.length - 1];
+  }
+}
+
+async function writeChunk(res: Response, chunk: string | Buffer) {
+  // A client that disconnects never drains, so stop waiting once the socket closes
+  if (!res.write(chunk) && !res.destroyed) await Promise.race([once(res, "drain"), once(res, "close")]);
+}
+
+function csvCell(value: number | string): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Sends the encoder's buffer to the response after every row group instead of holding the whole file
+class ResponseWriter extends ByteWriter {
+  constructor(private res: Response) {
+    super();
+  }
+
+  async flush() {
+    const chunk = Buffer.from(this.getBytes());
+    this.index = 0;
+    await writeChunk(this.res, chunk);
+  }
+
+  async finish() {
+    await this.flush();
+  }
+}
+
+async function streamRows<T>(
+  res: Response,
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  batches: AsyncGenerator<T[]>,
+) {
+  if (format === "parquet") {
+    const writer = new ResponseWriter(res);
+    const parquet = new ParquetWriter({
+      writer,
+      schema: schemaFromColumnData({
+        columnData: columns.map((c) => ({ name: c.name, data: [], type: c.type, nullable: false })),
+      }),
+    });
+    for await (const rows of batches) {
+      if (res.destroyed) return;
+      await parquet.write({
+        rowGroupSize: rows.length,
+        columnData: columns.map((c) => ({
+          name: c.name,
+          data: rows.map((r) => {
+            const value = c.value(r);
+            return c.type === "INT64" ? BigInt(Math.round(Number(value))) : value;
+          }),
+        })),
+      });
+    }
+    await parquet.finish();
+    return;
+  }
+
+  if (format === "csv") {
+    await writeChunk(res, columns.map((c) => c.name).join(",") + "\n");
+  }
+  for await (const rows of batches) {
+    if (res.destroyed) return;
+    const lines = rows.map((r) => format === "csv"
+      ? columns.map((c) => csvCell(c.value(r))).join(",")
+      : JSON.stringify(Object.fromEntries(columns.map((c) => [c.name, c.value(r)]))));
+    await writeChunk(res, lines.join("\n") + "\n");
+  }
+}
+
+function startDownload(res: Response, format: ExportFormat, name: string, sinceSeconds: number, untilSeconds: number) {
+  const day = (s: number) => new Date(s * 1000).toISOString().slice(0, 10);
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${name}-${day(sinceSeconds)}-${day(untilSeconds)}.${format}"`);
+  res.setHeader("Cache-Control", "no-store");
+}
+
+export async function exportCoreBlocks(res: Response, format: ExportFormat, sinceSeconds: number, untilSeconds?: number) {
+  // Pin the end of an open window so rows cached mid-export don't shift the pages
+  const until = untilSeconds ?? Math.floor(Date.now() / 1000);
+  startDownload(res, format, "core-blocks", sinceSeconds, until);
+  await streamRows(res, format, CORE_BLOCK_COLUMNS, coreBlockBatches(sinceSeconds, until));
+  res.end();
+}
+
+export async function exportPlatformEpochs(res: Response, format: ExportFormat, sinceSeconds: number, untilSeconds?: number) {
+  const until = untilSeconds ?? Math.floor(Date.now() / 1000);
+  startDownload(res, format, "platform-epochs", sinceSeconds, until);
+  await streamRows(res, format, PLATFORM_EPOCH_COLUMNS, platformEpochBatches(sinceSeconds * 1000, until * 1000));
+  res.end();
+}
@@ -0,0 +1,181 @@
+import { db } from "./db";
+import { coreBlockFees, platformEpochFees } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { creditsToDash } from "./dashService";
+import { startOfZonedBucket } from "@shared/timezone";
+
+const MAX_FEE_ROWS = 5;
+
+interface Distribution {
+  mean: number;
+  median: number;
+  p90: number;
+  p99: number;
+}
+
+interface DailyFees {
+  day: number;
+  fees: number;
+  count: number;
+  // Relative to the previous day in the window, null for the first day or after a zero-fee day
+  change: number | null;
+}
+
+// Lands inside the following day however long the zone's day is (23 to 25 hours)
+const NEXT_DAY_OFFSET_MS = 26 * 3600_000;
+
+// The last day that ended inside the window against the whole day before it. The window's
+// last day is usually today, which is still filling up and would always read as a drop, and its
+// first day can start mid-day, so neither end counts unless the window covers it completely.
+function completeDayOverDay(days: DailyFees[], sinceMs: number, untilMs: number, timeZone: string) {
+  const complete = days.filter((d) =>
+    d.day >= sinceMs && startOfZonedBucket(d.day + NEXT_DAY_OFFSET_MS, "day", timeZone) <= untilMs);
+  const last = complete[complete.length - 1];
+  const previous = complete[complete.length - 2];
+  if (!last || !previous || startOfZonedBucket(previous.day + NEXT_DAY_OFFSET_MS, "day", timeZone) !== last.day) {
+    return { dayOverDay: null, dayOverDayDay: last?.day ?? null };
+  }
+  return {
+    dayOverDay: previous.fees > 0 ? (last.fees - previous.fees) / previous.fees : null,
+    dayOverDayDay: last.day,
+  };
+}
+
+function toDistribution(row: Record<string, unknown>, prefix: string, scale: (n: number) => number = (n) => n): Distribution {
+  return {
+    mean: scale(Number(row[`${prefix}_mean`] || 0)),
+    median: scale(Number(row[`${prefix}_median`] || 0)),
+    p90: scale(Number(row[`${prefix}_p90`] || 0)),
+    p99: scale(Number(row[`${prefix}_p99`] || 0)),
+  };
+}
+
+function toDaily(rows: Array<Record<string, unknown>>, scale: (n: number) => number = (n) => n): DailyFees[] {
+  return rows.map((r) => ({
+    day: Number(r.day) * 1000,
+    fees: scale(Number(r.fees)),
+    count: Number(r.count),
+    change: r.prev_fees != null && Number(r.prev_fees) > 0
+      ? (Number(r.fees) - Number(r.prev_fees)) / Number(r.prev_fees)
+      : null,
+  }));
+}
+
+export async function getCoreFeeStats(sinceSeconds: number, untilSeconds: number | undefined, timeZone: string) {
+  const until = untilSeconds ?? Math.floor(Date.now() / 1000);
+  const inWindow = sql`${coreBlockFees.time} >= ${sinceSeconds} AND ${coreBlockFees.time} <= ${until}`;
+
+  // The coinbase is counted in tx_count but pays no fee, so per-tx figures leave it out
+  const [summary, maxBlocks, daily] = await Promise.all([
+    db.execute(sql`
+      SELECT
+        COUNT(*) AS blocks,
+        COALESCE(SUM(total_fees), 0) AS total_fees,
+        COALESCE(SUM(GREATEST(tx_count - 1, 0)), 0) AS transactions,
+        AVG(total_fees) AS block_mean,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY total_fees) AS block_median,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY total_fees) AS block_p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY total_fees) AS block_p99,
+        SUM(total_fees) / NULLIF(SUM(GREATEST(tx_count - 1, 0)), 0) AS tx_mean,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY total_fees / NULLIF(tx_count - 1, 0)) AS tx_median,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY total_fees / NULLIF(tx_count - 1, 0)) AS tx_p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY total_fees / NULLIF(tx_count - 1, 0)) AS tx_p99
+      FROM ${coreBlockFees}
+      WHERE ${inWindow}
+    `),
+    db.execute<{ height: number; hash: string; time: number; total_fees: number; tx_count: number }>(sql`
+      SELECT height, hash, "time", total_fees, tx_count
+      FROM ${coreBlockFees}
+      WHERE ${inWindow}
+      ORDER BY total_fees DESC, height DESC
+      LIMIT ${MAX_FEE_ROWS}
+    `),
+    db.execute(sql`
+      SELECT day, fees, count, LAG(fees) OVER (ORDER BY day) AS prev_fees
+      FROM (
+        SELECT
+          EXTRACT(EPOCH FROM date_trunc('day', to_timestamp("time") AT TIME ZONE ${timeZone}) AT TIME ZONE ${timeZone}) AS day,
+          SUM(total_fees) AS fees,
+          COUNT(*) AS count
+        FROM ${coreBlockFees}
+        WHERE ${inWindow}
+        GROUP BY 1
+      ) days
+      ORDER BY day
+    `),
+  ]);
+
+  const row = summary.rows[0] || {};
+  const days = toDaily(daily.rows);
+  return {
+    blocks: Number(row.blocks || 0),
+    totalFees: Number(row.total_fees || 0),
+    transactions: Number(row.transactions || 0),
+    feePerBlock: toDistribution(row, "block"),
+    feePerTx: toDistribution(row, "tx"),
+    maxFeeBlocks: maxBlocks.rows.map((b) => ({
+      height: Number(b.height),
+      hash: b.hash,
+      time: Number(b.time),
+      totalFees: Number(b.total_fees),
+      txCount: Number(b.tx_count),
+    })),
+    daily: days,
+    ...completeDayOverDay(days, sinceSeconds * 1000, until * 1000, timeZone),
+  };
+}
+
+export async function getPlatformFeeStats(sinceMs: number, untilMs: number | undefined, timeZone: string) {
+  const until = untilMs ?? Date.now();
+  const inWindow = sql`${platformEpochFees.startTime} >= ${sinceMs} AND ${platformEpochFees.startTime} <= ${until}`;
+
+  const [summary, maxEpochs, daily] = await Promise.all([
+    db.execute(sql`
+      SELECT
+        COUNT(*) AS epochs,
+        COALESCE(SUM(total_collected_fees), 0) AS total_fees,
+        AVG(total_collected_fees) AS epoch_mean,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY total_collected_fees) AS epoch_median,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY total_collected_fees) AS epoch_p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY total_collected_fees) AS epoch_p99
+      FROM ${platformEpochFees}
+      WHERE ${inWindow}
+    `),
+    db.execute<{ epoch_number: number; start_time: number; end_time: number; total_collected_fees: number }>(sql`
+      SELECT epoch_number, start_time, end_time, total_collected_fees
+      FROM ${platformEpochFees}
+      WHERE ${inWindow}
+      ORDER BY total_collected_fees DESC, epoch_number DESC
+      LIMIT ${MAX_FEE_ROWS}
+    `),
+    db.execute(sql`
+      SELECT day, fees, count, LAG(fees) OVER (ORDER BY day) AS prev_fees
+      FROM (
+        SELECT
+          EXTRACT(EPOCH FROM date_trunc('day', to_timestamp(start_time / 1000.0) AT TIME ZONE ${timeZone}) AT TIME ZONE ${timeZone}) AS day,
+          SUM(total_collected_fees) AS fees,
+          COUNT(*) AS count
+        FROM ${platformEpochFees}
+        WHERE ${inWindow}
+        GROUP BY 1
+      ) days
+      ORDER BY day
+    `),
+  ]);
+
+  const row = summary.rows[0] || {};
+  const days = toDaily(daily.rows, creditsToDash);
+  return {
+    epochs: Number(row.epochs || 0),
+    totalFees: creditsToDash(Number(row.total_fees || 0)),
+    feePerEpoch: toDistribution(row, "epoch", creditsToDash),
+    maxFeeEpochs: maxEpochs.rows.map((e) => ({
+      epochNumber: Number(e.epoch_number),
+      startTime: Number(e.start_time),
+      endTime: Number(e.end_time),
+      totalFees: creditsToDash(Number(e.total_collected_fees)),
+    })),
+    daily: days,
+    ...completeDayOverDay(days, sinceMs, until, timeZone),
+  };
+}
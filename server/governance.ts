@@ -0,0 +1,149 @@
+import { log } from "./index";
+import { db } from "./db";
+import { governanceProposals, governanceVoteSnapshots } from "@shared/schema";
+import { and, asc, desc, eq, gt, notInArray } from "drizzle-orm";
+import { rpcCall, checkRpcAvailability, fetchMasternodeCounts } from "./dashService";
+
+// EVO nodes carry four votes each in governance
+const EVO_VOTE_WEIGHT = 4;
+
+let governanceSyncRunning = false;
+
+interface ProposalData {
+  name?: string;
+  url?: string;
+  payment_address?: string;
+  payment_amount?: number | string;
+  start_epoch?: number;
+  end_epoch?: number;
+}
+
+function parseProposalData(dataString: string | undefined): ProposalData {
+  try {
+    let data = JSON.parse(dataString || "{}");
+    if (Array.isArray(data)) data = data[0]?.[1] || {};
+    return data;
+  } catch {
+    return {};
+  }
+}
+
+// Counts distinct masternodes with a current funding vote; the tallies in `gobject list`
+// are already weighted and stay authoritative.
+async function fetchFundingVoterCount(hash: string): Promise<number> {
+  try {
+    const votes = await rpcCall("gobject", ["getcurrentvotes", hash]);
+    let count = 0;
+    for (const vote of Object.values<string>(votes || {})) {
+      const parts = String(vote).split(":");
+      if (parts[parts.length - 1] === "funding") count++;
+    }
+    return count;
+  } catch (err: any) {
+    log(`getcurrentvotes failed for ${hash.slice(0, 12)}: ${err.message}`, "governance");
+    return 0;
+  }
+}
+
+export async function syncGovernance(): Promise<number> {
+  if (governanceSyncRunning) return 0;
+  if (!(await checkRpcAvailability())) return 0;
+
+  governanceSyncRunning = true;
+  try {
+    const list = await rpcCall("gobject", ["list", "valid", "proposals"]);
+    const now = Date.now();
+    const hashes: string[] = [];
+
+    for (const [hash, obj] of Object.entries<any>(list || {})) {
+      const data = parseProposalData(obj.DataString);
+      const voterCount = await fetchFundingVoterCount(hash);
+      const tally = {
+        yesCount: Number(obj.YesCount) || 0,
+        noCount: Number(obj.NoCount) || 0,
+        abstainCount: Number(obj.AbstainCount) || 0,
+        absoluteYesCount: Number(obj.AbsoluteYesCount) || 0,
+      };
+      const row = {
+        name: data.name || hash.slice(0, 12),
+        url: data.url || null,
+        paymentAddress: data.payment_address || null,
+        paymentAmount: Number(data.payment_amount) || 0,
+        startEpoch: data.start_epoch ?? null,
+        endEpoch: data.end_epoch ?? null,
+        createdAt: obj.CreationTime ?? null,
+        ...tally,
+        voterCount,
+        cachedFunding: !!obj.fCachedFunding,
+        active: true,
+        updatedAt: now,
+      };
+
+      await db.insert(governanceProposals)
+        .values({ hash, ...row })
+        .onConflictDoUpdate({ target: governanceProposals.hash, set: row });
+      await db.insert(governanceVoteSnapshots).values({ proposalHash: hash, takenAt: now, ...tally });
+      hashes.push(hash);
+    }
+
+    // Proposals dropped from the valid list have expired or been deleted by the network
+    await db.update(governanceProposals)
+      .set({ active: false, updatedAt: now })
+      .where(hashes.length > 0
+        ? and(eq(governanceProposals.active, true), notInArray(governanceProposals.hash, hashes))
+        : eq(governanceProposals.active, true));
+
+    log(`Governance sync: ${hashes.length} proposals`, "governance");
+    return hashes.length;
+  } catch (err: any) {
+    log(`Governance sync failed: ${err.message}`, "governance");
+    return 0;
+  } finally {
+    governanceSyncRunning = false;
+  }
+}
+
+export async function getFundingThreshold() {
+  const { totalMasternodes, evoNodes } = await fetchMasternodeCounts();
+  const weightedMasternodes = totalMasternodes + evoNodes * (EVO_VOTE_WEIGHT - 1);
+  return { weightedMasternodes, threshold: Math.ceil(weightedMasternodes / 10) };
+}
+
+export async function getProposals(onlyActive: boolean) {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const rows = onlyActive
+    ? await db.select().from(governanceProposals)
+        .where(and(eq(governanceProposals.active, true), gt(governanceProposals.endEpoch, nowSec)))
+        .orderBy(desc(governanceProposals.absoluteYesCount))
+    : await db.select().from(governanceProposals).orderBy(desc(governanceProposals.createdAt));
+
+  const { weightedMasternodes, threshold } = await getFundingThreshold();
+  return {
+    weightedMasternodes,
+    threshold,
+    proposals: rows.map((p) => ({
+      ...p,
+      passing: threshold > 0 && p.absoluteYesCount >= threshold,
+      votesNeeded: Math.max(0, threshold - p.absoluteYesCount),
+    })),
+  };
+}
+
+export async function getProposalVoteHistory(hash: string) {
+  const [proposal] = await db.select().from(governanceProposals).where(eq(governanceProposals.hash, hash));
+  if (!proposal) return null;
+
+  const snapshots = await db.select({
+    takenAt: governanceVoteSnapshots.takenAt,
+    yesCount: governanceVoteSnapshots.yesCount,
+    noCount: governanceVoteSnapshots.noCount,
+    abstainCount: governanceVoteSnapshots.abstainCount,
+    absoluteYesCount: governanceVoteSnapshots.absoluteYesCount,
+  })
+    .from(governanceVoteSnapshots)
+    .where(eq(governanceVoteSnapshots.proposalHash, hash))
+    .orderBy(asc(governanceVoteSnapshots.takenAt));
+
+  const { threshold } = await getFundingThreshold();
+  return { proposal, threshold, snapshots };
+}
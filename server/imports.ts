@@ -0,0 +1,357 @@
+import os from "os";
+import { log } from "./index";
+import { db } from "./db";
+import {
+  coreBlockFees,
+  importJobs,
+  insertCoreBlockFeesSchema,
+  insertMasternodeCountSnapshotSchema,
+  insertPlatformEpochFeesSchema,
+  insertPricePointSchema,
+  masternodeCountSnapshots,
+  platformEpochFees,
+  type ImportFormat,
+  type ImportJob,
+  type ImportKind,
+} from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, like, lt, ne, or, sql } from "drizzle-orm";
+import type { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { parseTimestamp, upsertPrices } from "./prices";
+import { flushRollups, markRollupsDirty } from "./rollups";
+import { INSTANCE_ID } from "./scheduler";
+
+const IMPORT_CHUNK_SIZE = 500;
+// Only the first errors are kept per job; the rest are counted
+const MAX_REPORTED_ERRORS = 100;
+const MAX_KEPT_JOBS = 20;
+// Progress is saved after every chunk, so a running import this quiet has lost its instance
+const STALLED_IMPORT_MS = 60 * 60_000;
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+interface ImportRows {
+  "core-blocks": z.infer<typeof insertCoreBlockFeesSchema>;
+  "platform-epochs": z.infer<typeof insertPlatformEpochFeesSchema>;
+  prices: z.infer<typeof insertPricePointSchema>;
+  "masternode-snapshots": z.infer<typeof insertMasternodeCountSnapshotSchema>;
+}
+
+interface WriteResult {
+  // Rows that were new or changed
+  written: number;
+  rejected?: Array<{ index: number; message: string }>;
+}
+
+interface ImportTarget<T> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // CSV cells arrive as text; listed columns are converted before validation
+  convert: Record<string, (value: string) => unknown>;
+  defaults?: Record<string, unknown>;
+  // Writes one validated chunk; rows it refuses are reported by their index in `rows`. Method
+  // syntax keeps every target assignable to ImportTarget<unknown> for the kind-agnostic import loop.
+  write(rows: T[]): Promise<WriteResult>;
+  finish?: () => Promise<void>;
+}
+
+const toNumber = (value: string) => Number(value);
+
+// Later rows win when a chunk repeats a key, since one upsert can't touch a row twice
+function lastByKey<T, K>(rows: T[], key: (row: T) => K): T[] {
+  return Array.from(new Map(rows.map((r) => [key(r), r])).values());
+}
+
+const TARGETS: { [K in ImportKind]: ImportTarget<ImportRows[K]> } = {
+  "core-blocks": {
+    schema: insertCoreBlockFeesSchema,
+    convert: { height: toNumber, time: toNumber, totalFees: toNumber, reward: toNumber, txCount: toNumber },
+    // A different hash at a cached height would be a second block there; replacing a cached
+    // block is left to the sync's reorg handling and the refetch action
+    write: async (rows: z.infer<typeof insertCoreBlockFeesSchema>[]) => {
+      const cached = await db.select({ height: coreBlockFees.height, hash: coreBlockFees.hash })
+        .from(coreBlockFees)
+        .where(inArray(coreBlockFees.height, rows.map((r) => r.height)));
+      const hashAt = new Map(cached.map((r) => [r.height, r.hash]));
+      const accepted: typeof rows = [];
+      const rejected: Array<{ index: number; message: string }> = [];
+      rows.forEach((row, index) => {
+        const existing = hashAt.get(row.height);
+        if (existing && existing !== row.hash) {
+          rejected.push({ index, message: `Height ${row.height} is already cached as block ${existing}` });
+          return;
+        }
+        hashAt.set(row.height, row.hash);
+        accepted.push(row);
+      });
+      if (accepted.length === 0) return { written: 0, rejected };
+
+      const inserted = await db.insert(coreBlockFees)
+        .values(accepted)
+        .onConflictDoNothing()
+        .returning({ time: coreBlockFees.time });
+      for (const r of inserted) markRollupsDirty(r.time);
+      return { written: inserted.length, rejected };
+    },
+    finish: async () => {
+      await flushRollups();
+    },
+  },
+  "platform-epochs": {
+    schema: insertPlatformEpochFeesSchema,
+    convert: { epochNumber: toNumber, startTime: toNumber, endTime: toNumber, totalCollectedFees: toNumber, feeMultiplier: toNumber },
+    write: async (rows: z.infer<typeof insertPlatformEpochFeesSchema>[]) => {
+      const written = await db.insert(platformEpochFees)
+        .values(lastByKey(rows, (r) => r.epochNumber))
+        .onConflictDoUpdate({
+          target: platformEpochFees.epochNumber,
+          set: {
+            startTime: sql`excluded.start_time`,
+            endTime: sql`excluded.end_time`,
+            totalCollectedFees: sql`excluded.total_collected_fees`,
+            feeMultiplier: sql`excluded.fee_multiplier`,
+          },
+        })
+        .returning({ epochNumber: platformEpochFees.epochNumber });
+      return { written: written.length };
+    },
+  },
+  prices: {
+    schema: insertPricePointSchema,
+    convert: { time: (value) => parseTimestamp(value) ?? NaN, usd: toNumber },
+    defaults: { source: "import" },
+    write: async (rows: z.infer<typeof insertPricePointSchema>[]) => ({ written: await upsertPrices(rows) }),
+  },
+  "masternode-snapshots": {
+    schema: insertMasternodeCountSnapshotSchema,
+    convert: {
+      takenAt: toNumber,
+      total: toNumber,
+      enabled: toNumber,
+      poseBanned: toNumber,
+      evoTotal: toNumber,
+      evoEnabled: toNumber,
+      evoPoseBanned: toNumber,
+    },
+    defaults: { source: "import" },
+    // Snapshots have no natural key, so one already stored at the same instant is treated as a duplicate
+    write: async (rows: z.infer<typeof insertMasternodeCountSnapshotSchema>[]) => {
+      const unique = lastByKey(rows, (r) => r.takenAt);
+      const existing = await db.select({ takenAt: masternodeCountSnapshots.takenAt })
+        .from(masternodeCountSnapshots)
+        .where(inArray(masternodeCountSnapshots.takenAt, unique.map((r) => r.takenAt)));
+      const seen = new Set(existing.map((r) => r.takenAt));
+      const fresh = unique.filter((r) => !seen.has(r.takenAt));
+      if (fresh.length > 0) await db.insert(masternodeCountSnapshots).values(fresh);
+      return { written: fresh.length };
+    },
+  },
+};
+
+export async function getImportJob(id: number): Promise<ImportJob | undefined> {
+  const [row] = await db.select().from(importJobs).where(eq(importJobs.id, id));
+  return row;
+}
+
+export async function listImportJobs(): Promise<ImportJob[]> {
+  return db.select().from(importJobs).orderBy(desc(importJobs.id)).limit(MAX_KEPT_JOBS);
+}
+
+async function saveJob(job: ImportJob) {
+  job.updatedAt = Date.now();
+  const { id, ...fields } = job;
+  await db.update(importJobs).set(fields).where(eq(importJobs.id, id));
+}
+
+// The uploaded file only lives in the memory of the instance that received it, so an import
+// started before this host restarted, or one that stopped reporting progress, can never finish
+export async function failInterruptedImports(): Promise<number> {
+  const now = Date.now();
+  const interrupted = await db.update(importJobs)
+    .set({ status: "error", error: "Interrupted before it finished", finishedAt: now, updatedAt: now })
+    .where(and(
+      inArray(importJobs.status, ["queued", "running"]),
+      or(
+        and(like(importJobs.instance, `${os.hostname()}:%`), ne(importJobs.instance, INSTANCE_ID)),
+        lt(importJobs.updatedAt, now - STALLED_IMPORT_MS),
+      ),
+    ))
+    .returning({ id: importJobs.id });
+  if (interrupted.length > 0) log(`Marked ${interrupted.length} interrupted import(s) as failed`, "imports");
+  return interrupted.length;
+}
+
+// Splits one CSV line, honouring double-quoted cells with "" escapes. Cells can't span lines.
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// Headers may be snake_case (as written by the exports) or camelCase
+function columnKey(header: string): string {
+  return header.trim().replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+interface RawRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+function parseRows(text: string, format: ImportFormat, target: ImportTarget<unknown>): { rows: RawRow[]; errors: ImportRowError[] } {
+  const rows: RawRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  if (format === "json") {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error("JSON input must be an array of rows");
+    parsed.forEach((values, i) => rows.push({ row: i + 1, values }));
+    return { rows, errors };
+  }
+
+  const lines = text.split(/\r?\n/);
+  if (format === "ndjson") {
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        rows.push({ row: i + 1, values: JSON.parse(line) });
+      } catch (err: any) {
+        errors.push({ row: i + 1, message: `Invalid JSON: ${err.message}` });
+      }
+    });
+    return { rows, errors };
+  }
+
+  const headerIndex = lines.findIndex((line) => line.trim().length > 0);
+  if (headerIndex < 0) return { rows, errors };
+  const columns = splitCsvLine(lines[headerIndex]).map(columnKey);
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = splitCsvLine(lines[i]);
+    const values: Record<string, unknown> = {};
+    columns.forEach((column, c) => {
+      const cell = cells[c]?.trim();
+      if (cell == null || cell === "") return;
+      const convert = target.convert[column];
+      values[column] = convert ? convert(cell) : cell;
+    });
+    rows.push({ row: i + 1, values });
+  }
+  return { rows, errors };
+}
+
+function recordError(job: ImportJob, error: ImportRowError) {
+  job.invalid++;
+  if (job.errors.length < MAX_REPORTED_ERRORS) job.errors.push(error);
+}
+
+async function runImport(job: ImportJob, text: string) {
+  const target: ImportTarget<unknown> = TARGETS[job.kind];
+  job.status = "running";
+  try {
+    await saveJob(job);
+    const { rows, errors } = parseRows(text, job.format, target);
+    job.totalRows = rows.length + errors.length;
+    for (const error of errors) recordError(job, error);
+    job.processedRows = errors.length;
+
+    for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+      const valid: unknown[] = [];
+      const validRows: number[] = [];
+      for (const { row, values } of rows.slice(i, i + IMPORT_CHUNK_SIZE)) {
+        const parsed = target.schema.safeParse({ ...target.defaults, ...values });
+        if (parsed.success) {
+          valid.push(parsed.data);
+          validRows.push(row);
+        } else {
+          recordError(job, { row, message: fromZodError(parsed.error, { prefix: null }).message });
+        }
+      }
+      if (valid.length > 0) {
+        const { written, rejected = [] } = await target.write(valid);
+        job.inserted += written;
+        for (const { index, message } of rejected) recordError(job, { row: validRows[index], message });
+      }
+      job.processedRows += Math.min(IMPORT_CHUNK_SIZE, rows.length - i);
+      await saveJob(job);
+    }
+
+    await target.finish?.();
+    job.status = "complete";
+    log(`Import ${job.id} (${job.kind} from ${job.source}): ${job.inserted} written, ${job.invalid} invalid of ${job.totalRows}`, "imports");
+  } catch (err: any) {
+    job.status = "error";
+    job.error = err.message;
+    log(`Import ${job.id} error: ${err.message}`, "imports");
+  } finally {
+    job.finishedAt = Date.now();
+    await saveJob(job).catch((err: any) => log(`Import ${job.id} save error: ${err.message}`, "imports"));
+  }
+}
+
+// Queues the import and returns straight away; poll the job for progress and row errors
+export async function startImport(kind: ImportKind, format: ImportFormat, text: string, source: string): Promise<ImportJob> {
+  const now = Date.now();
+  const [job] = await db.insert(importJobs).values({
+    kind,
+    format,
+    source,
+    instance: INSTANCE_ID,
+    status: "queued",
+    totalRows: 0,
+    processedRows: 0,
+    inserted: 0,
+    invalid: 0,
+    errors: [],
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+  }).returning();
+
+  // Ids are sequential, so everything below the newest MAX_KEPT_JOBS is history to prune
+  await db.delete(importJobs)
+    .where(and(isNotNull(importJobs.finishedAt), lt(importJobs.id, job.id - MAX_KEPT_JOBS + 1)));
+
+  setImmediate(() => runImport(job, text));
+  return job;
+}
+
+// The core block file shipped with the repo (and copied next to the build), imported as JSON
+export async function startBundledImport(): Promise<ImportJob | null> {
+  const fs = await import("fs");
+  const path = await import("path");
+  const candidates = [
+    path.join(process.cwd(), "server", "backfill-data.json"),
+    path.join(process.cwd(), "dist", "backfill-data.json"),
+    path.join(process.cwd(), "backfill-data.json"),
+  ];
+  const filePath = candidates.find((c) => fs.existsSync(c));
+  if (!filePath) return null;
+  const text = await fs.promises.readFile(filePath, "utf-8");
+  return startImport("core-blocks", "json", text, path.basename(filePath));
+}
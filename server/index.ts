@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { registerSyncJobs } from "./jobs";
+import { startScheduler } from "./scheduler";
+import { startZmqSubscriber } from "./zmq";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -48,7 +51,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Auth responses can carry freshly issued API tokens
+      if (capturedJsonResponse && !path.startsWith("/api/auth")) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -98,6 +102,9 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      registerSyncJobs();
+      startScheduler();
+      startZmqSubscriber();
     },
   );
 })();
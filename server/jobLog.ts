@@ -0,0 +1,25 @@
+import { log } from "./index";
+import { db } from "./db";
+import { jobLog, type JobLogEntry } from "@shared/schema";
+import { desc, eq } from "drizzle-orm";
+
+export type JobLogLevel = "info" | "error";
+
+// Logs like `log` and keeps a copy in job_log for the admin console; a failed write never
+// interrupts the job that reported it
+export async function recordJobEvent(job: string, message: string, level: JobLogLevel = "info") {
+  log(message, job);
+  try {
+    await db.insert(jobLog).values({ time: Date.now(), job, level, message });
+  } catch (err: any) {
+    log(`Job log write error: ${err.message}`, "jobLog");
+  }
+}
+
+export async function getJobLog(limit: number, job?: string): Promise<JobLogEntry[]> {
+  return db.select()
+    .from(jobLog)
+    .where(job ? eq(jobLog.job, job) : undefined)
+    .orderBy(desc(jobLog.time), desc(jobLog.id))
+    .limit(limit);
+}
@@ -0,0 +1,103 @@
+import { log } from "./index";
+import {
+  fetchDashPriceUsd,
+  fetchMasternodeCounts,
+  repairCoreGaps,
+  resetRpcAvailability,
+  startCoreBackfill,
+  syncAllPlatformEpochs,
+  syncMasternodePayments,
+  syncNewCoreBlocks,
+  syncSuperblockPayouts,
+} from "./dashService";
+import { syncGovernance } from "./governance";
+import { failInterruptedImports } from "./imports";
+import { ensureRollupsBuilt } from "./rollups";
+import { registerJob, withJobLock, type JobContext } from "./scheduler";
+import { syncBlockTransactions, txIngestMode } from "./transactions";
+
+const MINUTE = 60_000;
+
+// At startup, seeds the cache with the chain tip (retrying while the sources warm up), then
+// backfills towards Jan 1 unless the admin console paused it. A manual run (the console's start
+// button) resumes straight away. Holds the job lock for the whole backfill so only one instance runs it.
+async function seedAndBackfill({ trigger }: JobContext) {
+  if (trigger === "manual") return startCoreBackfill();
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const count = (await withJobLock("sync-core", syncNewCoreBlocks, true).catch(() => 0)) ?? 0;
+    if (count > 0) break;
+    log(`Seed attempt ${attempt + 1}: waiting to retry...`, "dashService");
+    await new Promise(r => setTimeout(r, 5000 + attempt * 3000));
+  }
+  await startCoreBackfill({ auto: true });
+}
+
+export function registerSyncJobs() {
+  registerJob({
+    name: "rollups-init",
+    intervalMs: null,
+    runOnStart: true,
+    run: async () => {
+      const days = await ensureRollupsBuilt();
+      if (days > 0) log(`Built fee rollups for ${days} day(s) of cached blocks`, "rollups");
+      return { days };
+    },
+  });
+  registerJob({
+    name: "imports-cleanup",
+    intervalMs: null,
+    runOnStart: true,
+    run: async () => ({ imports: await failInterruptedImports() }),
+  });
+  registerJob({ name: "core-backfill", intervalMs: null, runOnStart: true, run: seedAndBackfill });
+  registerJob({
+    name: "sync-core",
+    intervalMs: 5 * MINUTE,
+    run: async () => ({ blocks: await syncNewCoreBlocks() }),
+  });
+  registerJob({
+    name: "sync-platform",
+    intervalMs: 15 * MINUTE,
+    runOnStart: true,
+    run: async () => ({ epochs: await syncAllPlatformEpochs() }),
+  });
+  registerJob({
+    name: "repair-gaps",
+    intervalMs: 10 * MINUTE,
+    run: async () => ({ blocks: await repairCoreGaps() }),
+  });
+  registerJob({
+    name: "superblock-payouts",
+    intervalMs: 60 * MINUTE,
+    runOnStart: true,
+    run: async () => ({ superblocks: await syncSuperblockPayouts() }),
+  });
+  registerJob({ name: "masternode-counts", intervalMs: 15 * MINUTE, run: fetchMasternodeCounts });
+  registerJob({
+    name: "dash-price",
+    intervalMs: 15 * MINUTE,
+    run: async () => ({ usd: await fetchDashPriceUsd() }),
+  });
+  registerJob({
+    name: "masternode-payments",
+    intervalMs: 10 * MINUTE,
+    run: async () => ({ blocks: await syncMasternodePayments() }),
+  });
+  // Catches up blocks cached before transaction ingestion was turned on, and any whose fetch failed
+  if (txIngestMode() !== "off") {
+    registerJob({
+      name: "tx-ingest",
+      intervalMs: 10 * MINUTE,
+      run: async () => ({ transactions: await syncBlockTransactions() }),
+    });
+  }
+  registerJob({ name: "governance", intervalMs: 30 * MINUTE, runOnStart: true, run: syncGovernance });
+  // RPC availability is cached per process, so every instance rechecks its own
+  registerJob({
+    name: "rpc-recheck",
+    intervalMs: 5 * MINUTE,
+    exclusive: false,
+    run: resetRpcAvailability,
+  });
+}
@@ -0,0 +1,196 @@
+import { log } from "./index";
+import { db } from "./db";
+import { coreBlockFees, masternodePayments } from "@shared/schema";
+import { asc, eq, inArray, sql } from "drizzle-orm";
+import { rpcCall, fetchMasternodeCounts, fetchDashPriceUsd } from "./dashService";
+import { findMasternodeOutputs, type BlockData } from "./blockSources";
+import { getBlockSubsidy, splitReward, TARGET_BLOCK_SPACING } from "./consensus";
+
+// EVO nodes are paid for four consecutive blocks each time their turn comes up
+const EVO_PAYMENT_BLOCKS = 4;
+
+const PROTX_HASH_RE = /^[0-9a-fA-F]{64}$/;
+const ADDRESS_RE = /^[1-9A-HJ-NP-Za-km-z]{26,35}$/;
+
+// Blocks whose coinbase was fetched but paid no masternode, so the backfill doesn't refetch them every run
+const blocksWithoutPayee = new Set<string>();
+
+export function isProTxHash(query: string): boolean {
+  return PROTX_HASH_RE.test(query);
+}
+
+export function isAddress(query: string): boolean {
+  return ADDRESS_RE.test(query);
+}
+
+export async function recordMasternodePayments(block: BlockData): Promise<number> {
+  if (!block.coinbaseOutputs) return 0;
+
+  const outputs = findMasternodeOutputs(block.height, block.coinbaseOutputs, block.totalFees)
+    .filter((o) => o.address);
+  if (outputs.length === 0) {
+    blocksWithoutPayee.add(block.hash);
+    return 0;
+  }
+
+  await db.insert(masternodePayments).values(outputs.map((o) => ({
+    height: block.height,
+    blockHash: block.hash,
+    time: block.time,
+    vout: o.vout,
+    payee: o.address!,
+    amount: o.value,
+  }))).onConflictDoNothing();
+  return outputs.length;
+}
+
+// Cached blocks that never had their coinbase scanned, newest first
+export async function findBlocksMissingPayments(limit: number): Promise<number[]> {
+  const result = await db.execute<{ height: number; hash: string }>(sql`
+    SELECT ${coreBlockFees.height} AS height, ${coreBlockFees.hash} AS hash
+    FROM ${coreBlockFees}
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ${masternodePayments} WHERE ${masternodePayments.blockHash} = ${coreBlockFees.hash}
+    )
+    ORDER BY ${coreBlockFees.height} DESC
+    LIMIT ${limit + blocksWithoutPayee.size}
+  `);
+  return result.rows
+    .filter((r) => !blocksWithoutPayee.has(r.hash))
+    .map((r) => Number(r.height))
+    .slice(0, limit);
+}
+
+interface ResolvedMasternode {
+  proTxHash: string | null;
+  type: "regular" | "evo" | null;
+  payoutAddresses: string[];
+  registeredHeight: number | null;
+  lastPaidHeight: number | null;
+  poseBanHeight: number | null;
+}
+
+function fromProTx(info: any): ResolvedMasternode {
+  const state = info?.state || {};
+  const addresses = [state.payoutAddress, state.operatorPayoutAddress].filter(
+    (a: unknown): a is string => typeof a === "string" && a.length > 0,
+  );
+  return {
+    proTxHash: info.proTxHash,
+    type: /evo|highperformance/i.test(String(info.type)) ? "evo" : "regular",
+    payoutAddresses: Array.from(new Set(addresses)),
+    registeredHeight: state.registeredHeight ?? null,
+    lastPaidHeight: state.lastPaidHeight || null,
+    poseBanHeight: state.PoSeBanHeight > 0 ? state.PoSeBanHeight : null,
+  };
+}
+
+// Resolves a proTxHash through `protx info`, or an address by searching the registered list.
+// Addresses that belong to no registered masternode are still looked up as plain payees.
+export async function resolveMasternode(query: string, rpcAvailable: boolean): Promise<ResolvedMasternode | null> {
+  if (isProTxHash(query)) {
+    try {
+      return fromProTx(await rpcCall("protx", ["info", query]));
+    } catch (err: any) {
+      log(`protx info failed for ${query.slice(0, 12)}: ${err.message}`, "masternodes");
+      return null;
+    }
+  }
+
+  if (rpcAvailable) {
+    try {
+      const list = await rpcCall("protx", ["list", "registered", true]);
+      const match = (Array.isArray(list) ? list : []).find(
+        (entry: any) => entry.state?.payoutAddress === query || entry.state?.operatorPayoutAddress === query,
+      );
+      if (match) return fromProTx(match);
+    } catch (err: any) {
+      log(`protx list lookup failed: ${err.message}`, "masternodes");
+    }
+  }
+
+  return {
+    proTxHash: null,
+    type: null,
+    payoutAddresses: [query],
+    registeredHeight: null,
+    lastPaidHeight: null,
+    poseBanHeight: null,
+  };
+}
+
+// Consecutive heights (an EVO node's four-block turn) count as one payment turn
+function paymentTurnStarts<T extends { height: number }>(payments: T[]): T[] {
+  const starts: T[] = [];
+  let prev = -Infinity;
+  for (const p of payments) {
+    if (p.height - prev > EVO_PAYMENT_BLOCKS) starts.push(p);
+    prev = p.height;
+  }
+  return starts;
+}
+
+export async function getMasternodePayouts(node: ResolvedMasternode) {
+  const rows = node.payoutAddresses.length > 0
+    ? await db.select({
+        height: masternodePayments.height,
+        blockHash: masternodePayments.blockHash,
+        time: masternodePayments.time,
+        payee: masternodePayments.payee,
+        amount: masternodePayments.amount,
+      })
+        .from(masternodePayments)
+        .innerJoin(coreBlockFees, eq(coreBlockFees.hash, masternodePayments.blockHash))
+        .where(inArray(masternodePayments.payee, node.payoutAddresses))
+        .orderBy(asc(masternodePayments.height), asc(masternodePayments.vout))
+    : [];
+
+  const [scanned] = await db.select({
+    minH: sql<number>`MIN(${masternodePayments.height})`,
+    maxH: sql<number>`MAX(${masternodePayments.height})`,
+  }).from(masternodePayments);
+
+  const [{ totalMasternodes, evoNodes }, dashPriceUsd] = await Promise.all([
+    fetchMasternodeCounts(),
+    fetchDashPriceUsd(),
+  ]);
+
+  let cumulative = 0;
+  const payments = rows.map((r) => {
+    cumulative += r.amount;
+    return { ...r, cumulative };
+  });
+
+  // One pass through the payment queue takes a block per regular node and four per EVO node
+  const queueBlocks = totalMasternodes + evoNodes * (EVO_PAYMENT_BLOCKS - 1);
+  const tipHeight = scanned?.maxH ? Number(scanned.maxH) : 0;
+  const blockReward = tipHeight ? splitReward(tipHeight, getBlockSubsidy(tipHeight), 0).masternode : 0;
+  const expectedPaymentDash = node.type === "evo" ? blockReward * EVO_PAYMENT_BLOCKS : blockReward;
+
+  const turns = paymentTurnStarts(rows);
+  const first = turns[0];
+  const last = turns[turns.length - 1];
+  const actualIntervalBlocks = turns.length > 1 ? (last.height - first.height) / (turns.length - 1) : null;
+  const actualIntervalSeconds = turns.length > 1 ? (last.time - first.time) / (turns.length - 1) : null;
+
+  return {
+    ...node,
+    payments,
+    totals: {
+      count: turns.length,
+      dash: cumulative,
+      usd: cumulative * dashPriceUsd,
+    },
+    interval: {
+      expectedBlocks: queueBlocks,
+      expectedSeconds: queueBlocks * TARGET_BLOCK_SPACING,
+      expectedPaymentDash,
+      actualBlocks: actualIntervalBlocks,
+      actualSeconds: actualIntervalSeconds,
+      averagePaymentDash: turns.length > 0 ? cumulative / turns.length : null,
+    },
+    scannedFromHeight: scanned?.minH ? Number(scanned.minH) : null,
+    scannedToHeight: tipHeight || null,
+    dashPriceUsd,
+  };
+}
@@ -0,0 +1,113 @@
+import { log } from "./index";
+import { db } from "./db";
+import { priceHistory, type InsertPricePoint, type PricePoint } from "@shared/schema";
+import { and, asc, desc, gte, lt, lte, sql } from "drizzle-orm";
+
+const HOUR_SECONDS = 3600;
+const IMPORT_CHUNK_SIZE = 1000;
+
+export type Valuation = "now" | "at-time";
+
+export function parseValuation(value: unknown): Valuation {
+  return value === "at-time" ? "at-time" : "now";
+}
+
+function toHour(timeSeconds: number): number {
+  return Math.floor(timeSeconds / HOUR_SECONDS) * HOUR_SECONDS;
+}
+
+// Latest fetch within an hour wins, so each hour keeps one price
+export async function recordPrice(usd: number, source: string, timeSeconds: number = Date.now() / 1000) {
+  const time = toHour(timeSeconds);
+  await db.insert(priceHistory)
+    .values({ time, usd, source })
+    .onConflictDoUpdate({ target: priceHistory.time, set: { usd, source } });
+}
+
+// Prices inside the window plus the last one before it, so the first bucket has a price too
+export async function getPriceHistory(sinceSeconds: number, untilSeconds?: number): Promise<PricePoint[]> {
+  const [before] = await db.select()
+    .from(priceHistory)
+    .where(lt(priceHistory.time, sinceSeconds))
+    .orderBy(desc(priceHistory.time))
+    .limit(1);
+  const inRange = await db.select()
+    .from(priceHistory)
+    .where(and(
+      gte(priceHistory.time, sinceSeconds),
+      untilSeconds != null ? lte(priceHistory.time, untilSeconds) : undefined,
+    ))
+    .orderBy(asc(priceHistory.time));
+  return before ? [before, ...inRange] : inRange;
+}
+
+// Price of the latest point at or before `timeSeconds`; earlier times use the oldest known price
+export function priceAt(history: PricePoint[], timeSeconds: number, fallback: number): number {
+  if (history.length === 0) return fallback;
+  let lo = 0;
+  let hi = history.length - 1;
+  let idx = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (history[mid].time <= timeSeconds) {
+      idx = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return history[idx].usd || fallback;
+}
+
+// Unix seconds, unix milliseconds or an ISO date, returned as unix seconds
+export function parseTimestamp(value: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const n = parseFloat(value);
+    // Millisecond timestamps are 13 digits for any date after 2001
+    return n > 1e12 ? n / 1000 : n;
+  }
+  const ms = Date.parse(value);
+  return isNaN(ms) ? null : ms / 1000;
+}
+
+// Times are snapped to the hour; when several rows land in the same hour the last one wins
+export async function upsertPrices(points: InsertPricePoint[]): Promise<number> {
+  const byHour = new Map<number, InsertPricePoint>();
+  for (const p of points) byHour.set(toHour(p.time), { ...p, time: toHour(p.time) });
+  const rows = Array.from(byHour.values());
+  for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+    await db.insert(priceHistory)
+      .values(rows.slice(i, i + IMPORT_CHUNK_SIZE))
+      .onConflictDoUpdate({
+        target: priceHistory.time,
+        set: { usd: sql`excluded.usd`, source: sql`excluded.source` },
+      });
+  }
+  return rows.length;
+}
+
+// Accepts `timestamp,usd` rows where timestamp is unix seconds, unix milliseconds or an ISO date.
+// A header row and any extra columns are ignored.
+export async function importPriceCsv(csv: string, source: string = "csv") {
+  const byHour = new Map<number, number>();
+  let skipped = 0;
+
+  for (const line of csv.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const [rawTime, rawPrice] = trimmed.split(/[,;\t]/).map((c) => c.trim().replace(/^"|"$/g, ""));
+    const time = parseTimestamp(rawTime || "");
+    const usd = parseFloat(rawPrice);
+    if (time == null || !(usd > 0)) {
+      skipped++;
+      continue;
+    }
+    byHour.set(toHour(time), usd);
+  }
+
+  const rows = Array.from(byHour.entries()).map(([time, usd]) => ({ time, usd, source }));
+  await upsertPrices(rows);
+
+  log(`Imported ${rows.length} hourly prices (${skipped} lines skipped)`, "prices");
+  return { imported: rows.length, skipped };
+}
@@ -0,0 +1,162 @@
+import { db } from "./db";
+import { coreBlockFees, coreFeeRollupsDaily, coreFeeRollupsHourly } from "@shared/schema";
+import { and, asc, gte, lt, lte, sql } from "drizzle-orm";
+
+const HOUR_SECONDS = 3600;
+const DAY_SECONDS = 86400;
+// Full rebuilds run in slices so one transaction never covers the whole table
+const REBUILD_SLICE_DAYS = 30;
+
+// "block" skips the rollups and reads raw rows, for buckets the UTC-aligned rollups don't nest in
+export type RollupGranularity = "block" | "hour" | "day";
+
+export interface CoreFeeBucket {
+  time: number;
+  totalFees: number;
+  reward: number;
+  txCount: number;
+  blockCount: number;
+  height: number;
+}
+
+// UTC days with raw rows written since the last flush
+const dirtyDays = new Set<number>();
+
+function toDay(timeSeconds: number): number {
+  return Math.floor(timeSeconds / DAY_SECONDS) * DAY_SECONDS;
+}
+
+export function markRollupsDirty(timeSeconds: number) {
+  dirtyDays.add(toDay(timeSeconds));
+}
+
+// Recomputes both rollups for every UTC day overlapping [fromSeconds, toSeconds) from the raw rows
+export async function rebuildRollups(fromSeconds: number, toSeconds: number) {
+  const from = toDay(fromSeconds);
+  const to = toDay(toSeconds - 1) + DAY_SECONDS;
+
+  await db.transaction(async (tx) => {
+    await tx.delete(coreFeeRollupsHourly)
+      .where(and(gte(coreFeeRollupsHourly.bucketStart, from), lt(coreFeeRollupsHourly.bucketStart, to)));
+    await tx.execute(sql`
+      INSERT INTO ${coreFeeRollupsHourly} (bucket_start, total_fees, reward, tx_count, block_count, min_height, max_height)
+      SELECT ("time" / ${HOUR_SECONDS}) * ${HOUR_SECONDS}, SUM(total_fees), SUM(reward), SUM(tx_count), COUNT(*), MIN(height), MAX(height)
+      FROM ${coreBlockFees}
+      WHERE "time" >= ${from} AND "time" < ${to}
+      GROUP BY 1
+    `);
+
+    await tx.delete(coreFeeRollupsDaily)
+      .where(and(gte(coreFeeRollupsDaily.bucketStart, from), lt(coreFeeRollupsDaily.bucketStart, to)));
+    await tx.execute(sql`
+      INSERT INTO ${coreFeeRollupsDaily} (bucket_start, total_fees, reward, tx_count, block_count, min_height, max_height)
+      SELECT (bucket_start / ${DAY_SECONDS}) * ${DAY_SECONDS}, SUM(total_fees), SUM(reward), SUM(tx_count), SUM(block_count), MIN(min_height), MAX(max_height)
+      FROM ${coreFeeRollupsHourly}
+      WHERE bucket_start >= ${from} AND bucket_start < ${to}
+      GROUP BY 1
+    `);
+  });
+}
+
+// Rebuilds the days touched since the last flush; contiguous days are rebuilt in one pass.
+// Returns the number of days refreshed.
+export async function flushRollups(): Promise<number> {
+  if (dirtyDays.size === 0) return 0;
+  const days = Array.from(dirtyDays).sort((a, b) => a - b);
+  dirtyDays.clear();
+
+  try {
+    let start = days[0];
+    for (let i = 1; i <= days.length; i++) {
+      if (i === days.length || days[i] !== days[i - 1] + DAY_SECONDS) {
+        await rebuildRollups(start, days[i - 1] + DAY_SECONDS);
+        start = days[i];
+      }
+    }
+  } catch (err) {
+    for (const day of days) dirtyDays.add(day);
+    throw err;
+  }
+  return days.length;
+}
+
+export async function rebuildAllRollups(fromSeconds?: number, toSeconds?: number): Promise<number> {
+  const [range] = await db.select({
+    minTime: sql<number>`MIN(${coreBlockFees.time})`,
+    maxTime: sql<number>`MAX(${coreBlockFees.time})`,
+  }).from(coreBlockFees);
+  if (range?.minTime == null) return 0;
+
+  const from = toDay(Math.max(fromSeconds ?? 0, Number(range.minTime)));
+  const to = toDay(Math.min(toSeconds ?? Infinity, Number(range.maxTime))) + DAY_SECONDS;
+  let days = 0;
+  for (let start = from; start < to; start += REBUILD_SLICE_DAYS * DAY_SECONDS) {
+    const end = Math.min(to, start + REBUILD_SLICE_DAYS * DAY_SECONDS);
+    await rebuildRollups(start, end);
+    days += (end - start) / DAY_SECONDS;
+  }
+  return days;
+}
+
+// Rollups are created empty by db:push, so build them once from whatever is already cached
+export async function ensureRollupsBuilt(): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`COUNT(*)` }).from(coreFeeRollupsHourly);
+  if (Number(row?.count || 0) > 0) return 0;
+  return rebuildAllRollups();
+}
+
+async function getRawBuckets(sinceSeconds: number, untilSeconds?: number): Promise<CoreFeeBucket[]> {
+  const rows = await db.select({
+    time: coreBlockFees.time,
+    totalFees: coreBlockFees.totalFees,
+    reward: coreBlockFees.reward,
+    txCount: coreBlockFees.txCount,
+    height: coreBlockFees.height,
+  })
+    .from(coreBlockFees)
+    .where(and(
+      gte(coreBlockFees.time, sinceSeconds),
+      untilSeconds != null ? lte(coreBlockFees.time, untilSeconds) : undefined,
+    ))
+    .orderBy(asc(coreBlockFees.time));
+  return rows.map((r) => ({ ...r, blockCount: 1 }));
+}
+
+// Whole rollup buckets inside [since, until] come from the rollup table; the partial buckets at
+// either edge, including the one still filling up, are read from the raw rows.
+export async function getCoreFeeBuckets(
+  granularity: RollupGranularity,
+  sinceSeconds: number,
+  untilSeconds?: number,
+): Promise<CoreFeeBucket[]> {
+  if (granularity === "block") return getRawBuckets(sinceSeconds, untilSeconds);
+  const size = granularity === "day" ? DAY_SECONDS : HOUR_SECONDS;
+  const table = granularity === "day" ? coreFeeRollupsDaily : coreFeeRollupsHourly;
+  const end = untilSeconds ?? Math.floor(Date.now() / 1000);
+  const firstFull = Math.ceil(sinceSeconds / size) * size;
+  const fullEnd = Math.floor((end + 1) / size) * size;
+
+  if (firstFull >= fullEnd) return getRawBuckets(sinceSeconds, untilSeconds);
+
+  const [head, rollups, tail] = await Promise.all([
+    firstFull > sinceSeconds ? getRawBuckets(sinceSeconds, firstFull - 1) : Promise.resolve([]),
+    db.select()
+      .from(table)
+      .where(and(gte(table.bucketStart, firstFull), lt(table.bucketStart, fullEnd)))
+      .orderBy(asc(table.bucketStart)),
+    getRawBuckets(fullEnd, untilSeconds),
+  ]);
+
+  return [
+    ...head,
+    ...rollups.map((r) => ({
+      time: r.bucketStart,
+      totalFees: r.totalFees,
+      reward: r.reward,
+      txCount: r.txCount,
+      blockCount: r.blockCount,
+      height: r.maxHeight,
+    })),
+    ...tail,
+  ];
+}
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import {
   fetchPlatformStatus,
@@ -7,22 +7,51 @@ import {
   fetchPlatformTxHistory,
   fetchRecentPlatformEpochs,
   fetchCoreStatus,
-  syncNewCoreBlocks,
-  startCoreBackfill,
-  syncAllPlatformEpochs,
+  stopCoreBackfill,
+  retargetCoreBackfill,
+  resyncPlatformEpochs,
+  isPlatformResyncRunning,
   getCachedCoreFeeSeries,
   getCachedPlatformFeeSeries,
   getCoreHeightRange,
   getBackfillProgress,
+  getRecentReorgs,
+  getBlockDiscrepancies,
+  refetchBlockFromSource,
+  findCoreHeightGaps,
+  isGapRepairRunning,
+  getCoreCoverage,
   creditsToDash,
-  fetchDashPriceUsd,
   fetchMasternodeCounts,
   saveMasternodeCounts,
-  getBlockSubsidy,
+  getMasternodeCountHistory,
+  checkRpcAvailability,
+  getQuoteConversion,
+  fetchQuoteRates,
+  parseQuoteCurrency,
+  QUOTE_CURRENCIES,
 } from "./dashService";
+import { getBlockSubsidy, splitReward } from "./consensus";
+import { getSuperblockSummaries } from "./treasury";
+import { getProposals, getProposalVoteHistory } from "./governance";
+import { getMasternodePayouts, isAddress, isProTxHash, resolveMasternode } from "./masternodes";
+import { getPriceHistory, importPriceCsv, parseTimestamp, parseValuation, priceAt, type Valuation } from "./prices";
+import { getSourceHealth, isKnownSource } from "./blockSources";
+import { getCoreFeeStats, getPlatformFeeStats } from "./feeStats";
+import { DEFAULT_TIME_ZONE, isValidTimeZone, startOfZonedBucket, zoneOffsetMs, type BucketUnit } from "@shared/timezone";
+import { EXPORT_FORMATS, exportCoreBlocks, exportPlatformEpochs } from "./exports";
+import { getImportJob, listImportJobs, startBundledImport, startImport } from "./imports";
+import { getCoreFeeBuckets, type CoreFeeBucket, type RollupGranularity } from "./rollups";
+import { requireAdmin, setupAuth } from "./auth";
+import { getJobRuns, listJobs, startWithJobLock, triggerJob } from "./scheduler";
+import { streamEvents } from "./events";
+import { getZmqStatus } from "./zmq";
+import { countBlocksWithTxTypes, getFeeRateDistribution, getTxTypeBuckets, txIngestMode, type TxTypeBucket } from "./transactions";
+import { getJobLog } from "./jobLog";
 import { log } from "./index";
-import { db } from "./db";
-import { coreBlockFees } from "@shared/schema";
+import { CORE_TX_TYPES, IMPORT_KINDS, type CoreTxType, type MasternodeCountSnapshot } from "@shared/schema";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 function rangeToSeconds(range: string): number {
   switch (range) {
@@ -44,67 +73,349 @@ function rangeToTimespan(range: string): string {
   }
 }
 
-function getBucketKey(timestamp: number, range: string): number {
-  const d = new Date(timestamp * 1000);
-  switch (range) {
-    case "day":
-      d.setMinutes(0, 0, 0);
-      return d.getTime();
-    case "week":
-    case "month":
-      d.setHours(0, 0, 0, 0);
-      return d.getTime();
-    case "year":
-      d.setDate(1);
-      d.setHours(0, 0, 0, 0);
-      return d.getTime();
-    default:
-      d.setMinutes(0, 0, 0);
-      return d.getTime();
+// Platform Explorer history only supports fixed spans back from now, so pick the shortest
+// one that reaches back to the start of the window
+function timespanCovering(fromSeconds: number): string {
+  const back = Date.now() / 1000 - fromSeconds;
+  if (back <= 86400) return "24h";
+  if (back <= 7 * 86400) return "1w";
+  if (back <= 31 * 86400) return "1m";
+  return "1y";
+}
+
+// Matches the preset ranges: a day is bucketed hourly, a week or month daily, a year monthly
+function bucketForSpan(seconds: number): BucketUnit {
+  if (seconds <= 2 * 86400) return "hour";
+  if (seconds <= 120 * 86400) return "day";
+  return "month";
+}
+
+// Rollups are cut on UTC hours and days, so use the coarsest one whose buckets nest inside the
+// zone's buckets: daily only for zones that stay on UTC, hourly for whole-hour offsets, and the
+// raw blocks for zones like Asia/Kolkata whose hours start on the half hour
+function rollupFor(bucket: BucketUnit, timeZone: string): RollupGranularity {
+  const year = new Date().getUTCFullYear();
+  const offsets = [Date.UTC(year, 0, 1), Date.UTC(year, 6, 1)].map((t) => zoneOffsetMs(t, timeZone));
+  if (bucket !== "hour" && offsets.every((o) => o === 0)) return "day";
+  if (offsets.every((o) => o % 3_600_000 === 0)) return "hour";
+  return "block";
+}
+
+function getBucketKey(timestamp: number, bucket: BucketUnit, timeZone: string): number {
+  return startOfZonedBucket(timestamp * 1000, bucket, timeZone);
+}
+
+const RANGE_KEYS = ["day", "week", "month", "year"] as const;
+
+const timestampParam = z.string().trim().min(1).transform((value, ctx) => {
+  const seconds = parseTimestamp(value);
+  if (seconds == null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "must be an ISO date or a unix timestamp" });
+    return z.NEVER;
+  }
+  return Math.floor(seconds);
+});
+
+const timeWindowQuery = z.object({
+  range: z.enum(RANGE_KEYS).default("day"),
+  from: timestampParam.optional(),
+  to: timestampParam.optional(),
+  tz: z.string().trim().refine(isValidTimeZone, { message: "must be an IANA time zone" }).default(DEFAULT_TIME_ZONE),
+})
+  .refine((q) => q.to == null || q.from != null, { message: "to requires from", path: ["to"] })
+  .refine((q) => q.from == null || q.from < (q.to ?? Date.now() / 1000), { message: "from must be before to", path: ["from"] });
+
+const importQuery = z.object({
+  kind: z.enum(IMPORT_KINDS),
+  format: z.enum(["csv", "ndjson"]).optional(),
+  source: z.string().trim().min(1).max(128).optional(),
+});
+
+const MAX_EPOCH_RESYNC = 1000;
+
+const backfillTargetBody = z.object({
+  height: z.coerce.number().int().positive(),
+});
+
+const epochResyncBody = z.object({
+  fromEpoch: z.coerce.number().int().min(0),
+  toEpoch: z.coerce.number().int().min(0),
+})
+  .refine((b) => b.fromEpoch <= b.toEpoch, { message: "fromEpoch must not be after toEpoch", path: ["fromEpoch"] })
+  .refine((b) => b.toEpoch - b.fromEpoch < MAX_EPOCH_RESYNC, { message: `at most ${MAX_EPOCH_RESYNC} epochs per resync`, path: ["toEpoch"] });
+
+const jobLogQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  job: z.string().trim().min(1).max(32).optional(),
+});
+
+const jobRunsQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  job: z.string().trim().min(1).max(48).optional(),
+});
+
+const feeDistributionQuery = z.object({
+  type: z.enum(CORE_TX_TYPES).optional(),
+});
+
+const exportFormatQuery = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+});
+
+interface TimeWindow {
+  // null when an explicit from/to was given instead of a preset
+  range: typeof RANGE_KEYS[number] | null;
+  from: number;
+  to: number | undefined;
+  bucket: BucketUnit;
+  tz: string;
+}
+
+function parseTimeWindow(query: unknown): { window: TimeWindow } | { error: string } {
+  const parsed = timeWindowQuery.safeParse(query);
+  if (!parsed.success) return { error: fromZodError(parsed.error).message };
+
+  const { range, from, to, tz } = parsed.data;
+  const now = Math.floor(Date.now() / 1000);
+  if (from != null) {
+    return { window: { range: null, from, to, bucket: bucketForSpan((to ?? now) - from), tz } };
   }
+  const span = rangeToSeconds(range);
+  return { window: { range, from: now - span, to: undefined, bucket: bucketForSpan(span), tz } };
 }
 
 interface AggregatedBlock {
   t: number;
   fees: number;
   reward: number;
+  feesQuote: number;
+  rewardQuote: number;
   height: number;
   txCount: number;
   blockCount: number;
 }
 
 function aggregateCoreBlocks(
-  blocks: Array<{ time: number; totalFees: number; reward: number; height: number; txCount: number }>,
-  range: string
+  blocks: CoreFeeBucket[],
+  bucket: BucketUnit,
+  timeZone: string,
+  priceOf: (timeSeconds: number) => number = () => 0,
 ): AggregatedBlock[] {
   const buckets = new Map<number, AggregatedBlock>();
   for (const b of blocks) {
-    const key = getBucketKey(b.time, range);
+    const key = getBucketKey(b.time, bucket, timeZone);
+    const price = priceOf(b.time);
     const existing = buckets.get(key);
     if (existing) {
       existing.fees += b.totalFees;
       existing.reward += b.reward;
+      existing.feesQuote += b.totalFees * price;
+      existing.rewardQuote += b.reward * price;
       existing.txCount += b.txCount;
-      existing.blockCount++;
+      existing.blockCount += b.blockCount;
       existing.height = Math.max(existing.height, b.height);
     } else {
       buckets.set(key, {
         t: key,
         fees: b.totalFees,
         reward: b.reward,
+        feesQuote: b.totalFees * price,
+        rewardQuote: b.reward * price,
         height: b.height,
         txCount: b.txCount,
-        blockCount: 1,
+        blockCount: b.blockCount,
       });
     }
   }
   return Array.from(buckets.values()).sort((a, b) => a.t - b.t);
 }
 
+interface TxTypePoint {
+  t: number;
+  counts: Partial<Record<CoreTxType, number>>;
+  // DASH moved into Platform credits and back out
+  assetLocked: number;
+  assetUnlocked: number;
+}
+
+function aggregateTxTypes(rows: TxTypeBucket[], bucket: BucketUnit, timeZone: string): TxTypePoint[] {
+  const buckets = new Map<number, TxTypePoint>();
+  for (const r of rows) {
+    const key = getBucketKey(r.time, bucket, timeZone);
+    let point = buckets.get(key);
+    if (!point) {
+      point = { t: key, counts: {}, assetLocked: 0, assetUnlocked: 0 };
+      buckets.set(key, point);
+    }
+    point.counts[r.txType] = (point.counts[r.txType] ?? 0) + r.count;
+    if (r.txType === "asset-lock") point.assetLocked += r.amount;
+    if (r.txType === "asset-unlock") point.assetUnlocked += r.amount;
+  }
+  return Array.from(buckets.values()).sort((a, b) => a.t - b.t);
+}
+
+interface NodeCounts {
+  masternodes: number;
+  evoNodes: number;
+}
+
+// Counts from the latest snapshot taken at or before `tsMs`. Buckets older than the first
+// snapshot use the oldest one we have; with no history at all the live count is used.
+function nodeCountsAt(snapshots: MasternodeCountSnapshot[], tsMs: number, fallback: NodeCounts): NodeCounts {
+  if (snapshots.length === 0) return fallback;
+  let lo = 0;
+  let hi = snapshots.length - 1;
+  let idx = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (snapshots[mid].takenAt <= tsMs) {
+      idx = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  const snap = snapshots[idx];
+  return { masternodes: snap.enabled || fallback.masternodes, evoNodes: snap.evoEnabled || fallback.evoNodes };
+}
+
+function aggregateNodeCounts(
+  snapshots: MasternodeCountSnapshot[],
+  sinceMs: number,
+  bucket: BucketUnit,
+  timeZone: string,
+) {
+  const buckets = new Map<number, MasternodeCountSnapshot>();
+  for (const snap of snapshots) {
+    if (snap.takenAt < sinceMs) continue;
+    buckets.set(getBucketKey(Math.floor(snap.takenAt / 1000), bucket, timeZone), snap);
+  }
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([t, snap]) => ({
+      t,
+      masternodes: snap.enabled,
+      evoNodes: snap.evoEnabled,
+      poseBanned: snap.poseBanned,
+      evoPoseBanned: snap.evoPoseBanned,
+    }));
+}
+
+interface FeeWindow {
+  from: number;
+  to: number | undefined;
+  bucket: BucketUnit;
+  tz: string;
+}
+
+// Fee series and window totals for the dashboard; compare mode loads a second one for the previous period
+async function loadFeeWindow(
+  feeWindow: FeeWindow,
+  valuation: Valuation,
+  quote: Awaited<ReturnType<typeof getQuoteConversion>>,
+  currentCounts: NodeCounts,
+) {
+  const { from, to, bucket, tz } = feeWindow;
+  const sinceMs = from * 1000;
+  const untilMs = to != null ? to * 1000 : undefined;
+
+  const [coreFees, platformFees, mnHistory, priceHistory] = await Promise.all([
+    getCoreFeeBuckets(rollupFor(bucket, tz), from, to),
+    getCachedPlatformFeeSeries(sinceMs, untilMs),
+    getMasternodeCountHistory(sinceMs, untilMs),
+    valuation === "at-time" ? getPriceHistory(from, to) : Promise.resolve([]),
+  ]);
+
+  const priceOf = (timeSeconds: number) =>
+    valuation === "at-time"
+      ? priceAt(priceHistory, timeSeconds, quote.dashPriceUsd) * quote.usdToQuote
+      : quote.dashPrice;
+
+  const aggregated = aggregateCoreBlocks(coreFees, bucket, tz, priceOf);
+  const coreFeeSeries = aggregated.map((b) => {
+    const counts = nodeCountsAt(mnHistory, b.t, currentCounts);
+    return {
+      t: b.t,
+      fees: b.fees,
+      reward: b.reward,
+      feesQuote: b.feesQuote,
+      rewardQuote: b.rewardQuote,
+      height: b.height,
+      txCount: b.txCount,
+      blockCount: b.blockCount,
+      masternodes: counts.masternodes,
+      evoNodes: counts.evoNodes,
+    };
+  });
+
+  const platformFeeSeries = platformFees.map((e) => {
+    const fees = creditsToDash(e.totalCollectedFees);
+    return {
+      t: e.startTime,
+      fees,
+      feesQuote: fees * priceOf(e.startTime / 1000),
+      epochNumber: e.epochNumber,
+    };
+  });
+
+  // Each bucket's fees are shared among the nodes active at the time, not today's count
+  const payoutPerMasternode = coreFeeSeries.reduce((sum, b) => sum + b.fees / b.masternodes, 0);
+  const corePayoutQuote = coreFeeSeries.reduce((sum, b) => sum + b.feesQuote / b.masternodes, 0);
+  let platformPayoutPerEvo = 0;
+  let platformPayoutQuote = 0;
+  for (const e of platformFeeSeries) {
+    const counts = nodeCountsAt(mnHistory, e.t, currentCounts);
+    platformPayoutPerEvo += e.fees / counts.evoNodes;
+    platformPayoutQuote += e.feesQuote / counts.evoNodes;
+  }
+
+  return {
+    coreFeeSeries,
+    platformFeeSeries,
+    nodeCountSeries: aggregateNodeCounts(mnHistory, sinceMs, bucket, tz),
+    totals: {
+      totalCoreFees: coreFees.reduce((sum, b) => sum + b.totalFees, 0),
+      totalCoreRewards: coreFees.reduce((sum, b) => sum + b.reward, 0),
+      totalPlatformFeesDash: platformFeeSeries.reduce((sum, e) => sum + e.fees, 0),
+      payoutPerMasternode,
+      payoutPerEvo: payoutPerMasternode + platformPayoutPerEvo,
+    },
+    totalsQuote: {
+      totalCoreFees: coreFeeSeries.reduce((sum, b) => sum + b.feesQuote, 0),
+      totalCoreRewards: coreFeeSeries.reduce((sum, b) => sum + b.rewardQuote, 0),
+      totalPlatformFeesDash: platformFeeSeries.reduce((sum, e) => sum + e.feesQuote, 0),
+      payoutPerMasternode: corePayoutQuote,
+      payoutPerEvo: corePayoutQuote + platformPayoutQuote,
+    },
+    endCounts: nodeCountsAt(mnHistory, untilMs ?? Date.now(), currentCounts),
+  };
+}
+
+// Manual runs go through the scheduler so they take the same advisory lock as the scheduled ones
+function startJob(res: Response, name: string, busyMessage: string) {
+  const result = triggerJob(name);
+  if (result === "unknown") return res.status(404).json({ error: `Unknown job ${name}` });
+  if (result === "running") return res.status(409).json({ error: busyMessage });
+  res.status(202).json({ started: true });
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous !== 0 ? (current - previous) / Math.abs(previous) : null;
+}
+
+function changesBetween<T extends Record<string, number>>(current: T, previous: T): Record<keyof T, number | null> {
+  const changes = {} as Record<keyof T, number | null>;
+  for (const key of Object.keys(current) as Array<keyof T>) {
+    changes[key] = percentChange(current[key], previous[key]);
+  }
+  return changes;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  setupAuth(app);
 
   app.get("/api/platform/status", async (_req, res) => {
     try {
@@ -171,22 +482,98 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/sources", (_req, res) => {
+    try {
+      res.json(getSourceHealth());
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   app.get("/api/core/fees", async (req, res) => {
     try {
-      const range = (req.query.range as string) || "day";
-      const sinceTs = Math.floor(Date.now() / 1000) - rangeToSeconds(range);
-      const series = await getCachedCoreFeeSeries(sinceTs);
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { from, to } = parsed.window;
+      const series = await getCachedCoreFeeSeries(from, to);
       res.json(series);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
+  app.get("/api/core/fees/stats", async (req, res) => {
+    try {
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { from, to, tz } = parsed.window;
+      res.json(await getCoreFeeStats(from, to, tz));
+    } catch (err: any) {
+      log(`Core fee stats error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/core/fee-distribution", async (req, res) => {
+    try {
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const query = feeDistributionQuery.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: fromZodError(query.error).message });
+      }
+      const { from, to } = parsed.window;
+      res.json(await getFeeRateDistribution(from, to, query.data.type));
+    } catch (err: any) {
+      log(`Fee distribution error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/core/tx-types", async (req, res) => {
+    try {
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { from, to, bucket, tz } = parsed.window;
+      const [rows, blocks] = await Promise.all([
+        getTxTypeBuckets(rollupFor(bucket, tz), from, to),
+        countBlocksWithTxTypes(from, to),
+      ]);
+      const series = aggregateTxTypes(rows, bucket, tz);
+
+      const totals: Partial<Record<CoreTxType, number>> = {};
+      for (const r of rows) totals[r.txType] = (totals[r.txType] ?? 0) + r.count;
+      res.json({
+        enabled: txIngestMode() !== "off",
+        window: { from, to: to ?? null, bucket, tz },
+        blocks,
+        totals,
+        assetLocked: series.reduce((sum, p) => sum + p.assetLocked, 0),
+        assetUnlocked: series.reduce((sum, p) => sum + p.assetUnlocked, 0),
+        series,
+      });
+    } catch (err: any) {
+      log(`Tx type error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   app.get("/api/platform/fees", async (req, res) => {
     try {
-      const range = (req.query.range as string) || "day";
-      const sinceTs = (Date.now() - rangeToSeconds(range) * 1000);
-      const series = await getCachedPlatformFeeSeries(sinceTs);
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { from, to } = parsed.window;
+      const series = await getCachedPlatformFeeSeries(from * 1000, to != null ? to * 1000 : undefined);
       const mapped = series.map((e) => ({
         ...e,
         totalCollectedFeesDash: creditsToDash(e.totalCollectedFees),
@@ -197,56 +584,175 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/platform/fees/stats", async (req, res) => {
+    try {
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { from, to, tz } = parsed.window;
+      res.json(await getPlatformFeeStats(from * 1000, to != null ? to * 1000 : undefined, tz));
+    } catch (err: any) {
+      log(`Platform fee stats error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/export/core-blocks", async (req, res) => {
+    try {
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const format = exportFormatQuery.safeParse(req.query);
+      if (!format.success) {
+        return res.status(400).json({ error: fromZodError(format.error).message });
+      }
+      const { from, to } = parsed.window;
+      await exportCoreBlocks(res, format.data.format, from, to);
+    } catch (err: any) {
+      log(`Core block export error: ${err.message}`, "routes");
+      // Once rows are streaming the status line is gone, so cut the download short instead
+      if (res.headersSent) return res.destroy(err);
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/export/platform-epochs", async (req, res) => {
+    try {
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const format = exportFormatQuery.safeParse(req.query);
+      if (!format.success) {
+        return res.status(400).json({ error: fromZodError(format.error).message });
+      }
+      const { from, to } = parsed.window;
+      await exportPlatformEpochs(res, format.data.format, from, to);
+    } catch (err: any) {
+      log(`Platform epoch export error: ${err.message}`, "routes");
+      if (res.headersSent) return res.destroy(err);
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   app.get("/api/sync/status", async (_req, res) => {
     try {
       const [heightRange, progress] = await Promise.all([
         getCoreHeightRange(),
-        Promise.resolve(getBackfillProgress()),
+        getBackfillProgress(),
       ]);
       res.json({
         coreBlocks: heightRange,
         backfill: progress,
+        zmq: getZmqStatus(),
+      });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/sync/gaps", async (_req, res) => {
+    try {
+      const gaps = await findCoreHeightGaps();
+      res.json({
+        gaps,
+        gapCount: gaps.length,
+        totalMissing: gaps.reduce((s, g) => s + g.missing, 0),
+        repairRunning: isGapRepairRunning(),
       });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
+  app.post("/api/sync/gaps/repair", requireAdmin, async (_req, res) => {
+    try {
+      if (isGapRepairRunning()) {
+        return res.status(409).json({ error: "Gap repair already running" });
+      }
+      startJob(res, "repair-gaps", "Gap repair already running");
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/sync/discrepancies", async (req, res) => {
+    try {
+      const onlyOpen = req.query.status !== "all";
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const discrepancies = await getBlockDiscrepancies(onlyOpen, limit);
+      res.json(discrepancies);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.post("/api/sync/discrepancies/refetch", requireAdmin, async (req, res) => {
+    try {
+      const height = parseInt(req.body?.height);
+      const source = String(req.body?.source || "");
+      if (!Number.isInteger(height) || height < 0) {
+        return res.status(400).json({ error: "height must be a non-negative integer" });
+      }
+      if (!isKnownSource(source)) {
+        return res.status(400).json({ error: `Unknown source: ${source}` });
+      }
+      const row = await refetchBlockFromSource(height, source);
+      res.json({ refetched: row });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/sync/reorgs", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const reorgs = await getRecentReorgs(limit);
+      res.json(reorgs);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   app.get("/api/dashboard", async (req, res) => {
     try {
-      const range = (req.query.range as string) || "day";
-      const timespan = rangeToTimespan(range);
-      const sinceCoreTsSeconds = Math.floor(Date.now() / 1000) - rangeToSeconds(range);
-      const sincePlatformTsMs = Date.now() - rangeToSeconds(range) * 1000;
+      const parsed = parseTimeWindow(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const timeWindow = parsed.window;
+      const { range, bucket, tz } = timeWindow;
+      const timespan = range ? rangeToTimespan(range) : timespanCovering(timeWindow.from);
+      const sinceCoreTsSeconds = timeWindow.from;
+      const untilCoreTsSeconds = timeWindow.to;
+      const sincePlatformTsMs = timeWindow.from * 1000;
+      const untilPlatformTsMs = timeWindow.to != null ? timeWindow.to * 1000 : undefined;
+      const valuation = parseValuation(req.query.valuation);
+      const requestedCurrency = parseQuoteCurrency(req.query.currency);
+
+      const compare = req.query.compare === "previous";
 
       const [
         platformStatus,
         validators,
-        coreFees,
-        platformFees,
         gasHistory,
         heightRange,
-        dashPriceUsd,
+        quote,
         mnCounts,
+        coreCoverage,
       ] = await Promise.all([
         fetchPlatformStatus(),
         fetchPlatformValidators(),
-        getCachedCoreFeeSeries(sinceCoreTsSeconds),
-        getCachedPlatformFeeSeries(sincePlatformTsMs),
         fetchPlatformGasHistory(timespan),
         getCoreHeightRange(),
-        fetchDashPriceUsd(),
+        getQuoteConversion(requestedCurrency),
         fetchMasternodeCounts(),
+        getCoreCoverage(sinceCoreTsSeconds, untilCoreTsSeconds),
       ]);
 
-      const totalCoreFees = coreFees.reduce((sum, b) => sum + b.totalFees, 0);
-      const totalCoreRewards = coreFees.reduce((sum, b) => sum + b.reward, 0);
-
-      const totalPlatformCredits = platformFees.reduce(
-        (sum, e) => sum + e.totalCollectedFees,
-        0
-      );
-      const totalPlatformFeesDash = creditsToDash(totalPlatformCredits);
+      const { dashPriceUsd, currency } = quote;
 
       const totalCreditsOnPlatform = platformStatus?.totalCredits || 0;
       const totalCreditsOnPlatformDash = creditsToDash(totalCreditsOnPlatform);
@@ -256,54 +762,86 @@ export async function registerRoutes(
       const totalMasternodes = mnCounts.totalMasternodes || 3700;
       const regularMasternodes = totalMasternodes - evoCount;
 
-      const corePayPerNode = totalMasternodes > 0 ? totalCoreFees / totalMasternodes : 0;
-      const payoutPerMasternode = corePayPerNode;
-      const payoutPerEvo = corePayPerNode + (totalPlatformFeesDash / evoCount);
+      const currentCounts = { masternodes: totalMasternodes, evoNodes: evoCount };
 
-      const aggregated = aggregateCoreBlocks(coreFees, range);
-      const coreFeeSeries = aggregated.map((b) => ({
-        t: b.t,
-        fees: b.fees,
-        reward: b.reward,
-        height: b.height,
-        txCount: b.txCount,
-        blockCount: b.blockCount,
-      }));
+      // The previous window has the same length and ends where this one starts
+      const windowEnd = timeWindow.to ?? Math.floor(Date.now() / 1000);
+      const span = windowEnd - timeWindow.from;
+      const [current, previous] = await Promise.all([
+        loadFeeWindow(timeWindow, valuation, quote, currentCounts),
+        compare
+          ? loadFeeWindow({ from: timeWindow.from - span, to: timeWindow.from - 1, bucket, tz }, valuation, quote, currentCounts)
+          : Promise.resolve(null),
+      ]);
 
-      const platformFeeSeries = platformFees.map((e) => ({
-        t: e.startTime,
-        fees: creditsToDash(e.totalCollectedFees),
-        epochNumber: e.epochNumber,
-      }));
+      const totals = {
+        ...current.totals,
+        totalCreditsOnPlatformDash,
+        totalMasternodes,
+        regularMasternodes,
+        evoCount,
+        totalValidators,
+      };
+      const totalsQuote = {
+        ...current.totalsQuote,
+        // A current balance, so always valued at the current price
+        totalCreditsOnPlatformDash: totalCreditsOnPlatformDash * quote.dashPrice,
+      };
 
       const platformGasSeries = (gasHistory || []).map((g: any) => ({
         t: new Date(g.timestamp).getTime(),
         gas: g.data?.gas || 0,
         blockHeight: g.data?.blockHeight || 0,
-      }));
+      })).filter((g: { t: number }) => g.t >= sincePlatformTsMs && (untilPlatformTsMs == null || g.t <= untilPlatformTsMs));
+
+      let comparison = null;
+      if (previous) {
+        const offsetMs = span * 1000;
+        // Node counts compare the snapshots at the end of each window; the credit balance and
+        // validator count have no history, so they get no delta
+        const deltas = {
+          ...changesBetween(current.totals, previous.totals),
+          totalCreditsOnPlatformDash: null,
+          totalMasternodes: percentChange(current.endCounts.masternodes, previous.endCounts.masternodes),
+          regularMasternodes: percentChange(
+            current.endCounts.masternodes - current.endCounts.evoNodes,
+            previous.endCounts.masternodes - previous.endCounts.evoNodes,
+          ),
+          evoCount: percentChange(current.endCounts.evoNodes, previous.endCounts.evoNodes),
+          totalValidators: null,
+        };
+        comparison = {
+          window: { from: timeWindow.from - span, to: timeWindow.from - 1 },
+          // Previous-period points are shifted forward by this much so they line up with the current ones
+          offsetMs,
+          totals: previous.totals,
+          totalsQuote: previous.totalsQuote,
+          deltas,
+          deltasQuote: changesBetween(current.totalsQuote, previous.totalsQuote),
+          coreFeeSeries: previous.coreFeeSeries.map((b) => ({ ...b, t: b.t + offsetMs })),
+          platformFeeSeries: previous.platformFeeSeries.map((e) => ({ ...e, t: e.t + offsetMs })),
+        };
+      }
 
       res.json({
-        totals: {
-          totalCoreFees,
-          totalCoreRewards,
-          totalPlatformFeesDash,
-          totalCreditsOnPlatformDash,
-          totalMasternodes,
-          regularMasternodes,
-          evoCount,
-          totalValidators,
-          payoutPerMasternode,
-          payoutPerEvo,
-        },
+        totals,
+        totalsQuote,
+        valuation,
+        currency,
+        dashPrice: quote.dashPrice,
         dashPriceUsd,
-        coreFeeSeries,
-        platformFeeSeries,
+        coreFeeSeries: current.coreFeeSeries,
+        platformFeeSeries: current.platformFeeSeries,
         platformGasSeries,
+        nodeCountSeries: current.nodeCountSeries,
         platformStatus,
         coreHeight: heightRange.max,
         coreBlocksCached: heightRange.count,
-        backfillProgress: getBackfillProgress(),
+        coreCoverage,
+        backfillProgress: await getBackfillProgress(),
         range,
+        window: { from: timeWindow.from, to: timeWindow.to ?? null, bucket, tz },
+        comparison,
       });
     } catch (err: any) {
       log(`Dashboard error: ${err.message}`, "routes");
@@ -311,18 +849,93 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/sankey", async (_req, res) => {
+  // Server-sent new-block, new-epoch, price-update and backfill-progress events for the dashboard
+  app.get("/api/stream", streamEvents);
+
+  app.get("/api/treasury/superblocks", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 12, 60);
+      const heightRange = await getCoreHeightRange();
+      const summaries = await getSuperblockSummaries(limit, heightRange.max || undefined);
+      res.json(summaries);
+    } catch (err: any) {
+      log(`Treasury error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/governance/proposals", async (req, res) => {
+    try {
+      const onlyActive = req.query.status !== "all";
+      res.json(await getProposals(onlyActive));
+    } catch (err: any) {
+      log(`Governance error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/governance/proposals/:hash/votes", async (req, res) => {
+    try {
+      const history = await getProposalVoteHistory(req.params.hash);
+      if (!history) {
+        return res.status(404).json({ error: "Unknown proposal" });
+      }
+      res.json(history);
+    } catch (err: any) {
+      log(`Governance votes error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/masternode/payouts", async (req, res) => {
+    try {
+      const query = String(req.query.q || "").trim();
+      if (!isProTxHash(query) && !isAddress(query)) {
+        return res.status(400).json({ error: "q must be a proTxHash or a Dash payout address" });
+      }
+      const rpcAvailable = await checkRpcAvailability();
+      if (isProTxHash(query) && !rpcAvailable) {
+        return res.status(503).json({ error: "Resolving a proTxHash requires Dash Core RPC" });
+      }
+      const node = await resolveMasternode(query, rpcAvailable);
+      if (!node) {
+        return res.status(404).json({ error: "No registered masternode with that proTxHash" });
+      }
+      res.json(await getMasternodePayouts(node));
+    } catch (err: any) {
+      log(`Masternode payouts error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/sankey", async (req, res) => {
     try {
       const BLOCKS_PER_MONTH = 17280;
+      const valuation = parseValuation(req.query.valuation);
+      const sinceSeconds = Math.floor(Date.now() / 1000) - 30 * 86400;
 
-      const [heightRange, dashPriceUsd, mnCounts, coreFees, platformFees] = await Promise.all([
+      const [heightRange, quote, mnCounts, coreFees, platformFees, priceHistory] = await Promise.all([
         getCoreHeightRange(),
-        fetchDashPriceUsd(),
+        getQuoteConversion(parseQuoteCurrency(req.query.currency)),
         fetchMasternodeCounts(),
-        getCachedCoreFeeSeries(Math.floor(Date.now() / 1000) - 30 * 86400),
+        getCoreFeeBuckets("day", sinceSeconds),
         getCachedPlatformFeeSeries(Date.now() - 30 * 86400 * 1000),
+        valuation === "at-time" ? getPriceHistory(sinceSeconds) : Promise.resolve([]),
       ]);
 
+      // Valued at time, the month's flows use the reward-weighted average price over the window
+      const spotPriceUsd = quote.dashPriceUsd;
+      let dashPriceUsd = spotPriceUsd;
+      if (valuation === "at-time" && coreFees.length > 0) {
+        let weighted = 0;
+        let weight = 0;
+        for (const b of coreFees) {
+          weighted += b.reward * priceAt(priceHistory, b.time, spotPriceUsd);
+          weight += b.reward;
+        }
+        if (weight > 0) dashPriceUsd = weighted / weight;
+      }
+
       const currentHeight = heightRange.max || 2420000;
       const subsidy = getBlockSubsidy(currentHeight);
 
@@ -333,12 +946,13 @@ export async function registerRoutes(
 
       const totalReward = monthlyMinedCoins + monthlyCoreFees;
 
-      const toMiners = totalReward * 0.20;
-      const toMasternodes = totalReward * 0.60;
-      const toDao = totalReward * 0.20;
+      const split = splitReward(currentHeight, monthlyMinedCoins, monthlyCoreFees);
+      const toMiners = split.miner;
+      const toMasternodes = split.masternode + split.platform;
+      const toDao = split.treasury;
 
-      const masternodeRewards = toMasternodes * 0.625;
-      const platformCreditPool = toMasternodes * 0.375;
+      const masternodeRewards = split.masternode;
+      const platformCreditPool = split.platform;
 
       const regularCount = mnCounts.totalMasternodes - mnCounts.evoNodes;
       const evoCount = mnCounts.evoNodes;
@@ -367,6 +981,10 @@ export async function registerRoutes(
         toEvoFromRewards,
         toEvoTotal,
         dashPriceUsd,
+        spotPriceUsd,
+        currency: quote.currency,
+        dashPrice: dashPriceUsd * quote.usdToQuote,
+        valuation,
         currentHeight,
         subsidy,
         regularMasternodes: regularCount,
@@ -379,83 +997,189 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/import-backfill", async (_req, res) => {
+  app.get("/api/currencies", async (_req, res) => {
     try {
-      const fs = await import("fs");
-      const path = await import("path");
-      const candidates = [
-        path.join(process.cwd(), "server", "backfill-data.json"),
-        path.join(process.cwd(), "dist", "backfill-data.json"),
-        path.join(process.cwd(), "backfill-data.json"),
-      ];
-      let filePath = "";
-      for (const c of candidates) {
-        if (fs.existsSync(c)) { filePath = c; break; }
-      }
-      if (!filePath) {
-        return res.status(404).json({ error: "No backfill data file found", checked: candidates });
+      const rates = await fetchQuoteRates();
+      res.json(QUOTE_CURRENCIES.map((code) => ({ code, dashPrice: rates[code] ?? null })));
+    } catch (err: any) {
+      log(`Currencies error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.post("/api/prices/import", requireAdmin, express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || req.body.trim().length === 0) {
+        return res.status(400).json({ error: "Send the CSV as a text/csv request body" });
       }
-      const raw = fs.readFileSync(filePath, "utf-8");
-      const rows = JSON.parse(raw) as Array<{
-        hash: string;
-        height: number;
-        time: number;
-        totalFees: number;
-        reward: number;
-        txCount: number;
-      }>;
+      const source = typeof req.query.source === "string" && req.query.source ? req.query.source : "csv";
+      res.json(await importPriceCsv(req.body, source));
+    } catch (err: any) {
+      log(`Price import error: ${err.message}`, "routes");
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-      let inserted = 0;
-      const CHUNK = 500;
-      for (let i = 0; i < rows.length; i += CHUNK) {
-        const chunk = rows.slice(i, i + CHUNK);
-        const values = chunk.map((r) => ({
-          hash: r.hash,
-          height: r.height,
-          time: r.time,
-          totalFees: r.totalFees,
-          reward: r.reward,
-          txCount: r.txCount,
-        }));
-        await db.insert(coreBlockFees).values(values).onConflictDoNothing();
-        inserted += chunk.length;
+  app.post(
+    "/api/imports",
+    requireAdmin,
+    express.text({ type: ["text/csv", "text/plain", "application/x-ndjson"], limit: "200mb" }),
+    async (req, res) => {
+      try {
+        const parsed = importQuery.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({ error: fromZodError(parsed.error).message });
+        }
+        if (typeof req.body !== "string" || req.body.trim().length === 0) {
+          return res.status(400).json({ error: "Send the file as a text/csv or application/x-ndjson request body" });
+        }
+        const { kind, format, source } = parsed.data;
+        const resolvedFormat = format ?? (req.is("application/x-ndjson") ? "ndjson" : "csv");
+        const job = await startImport(kind, resolvedFormat, req.body, source ?? "upload");
+        res.status(202).json(job);
+      } catch (err: any) {
+        log(`Import error: ${err.message}`, "routes");
+        res.status(500).json({ error: err.message });
       }
+    },
+  );
+
+  app.get("/api/imports", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await listImportJobs());
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-      res.json({ imported: inserted, total: rows.length });
+  app.get<{ id: string }>("/api/imports/:id", requireAdmin, async (req, res) => {
+    try {
+      const job = await getImportJob(parseInt(req.params.id));
+      if (!job) return res.status(404).json({ error: "Import not found" });
+      res.json(job);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
-  app.post("/api/sync", async (_req, res) => {
+  // The bundled backfill file, now run as a core-blocks import job
+  app.post("/api/import-backfill", requireAdmin, async (_req, res) => {
     try {
-      const coreCount = await syncNewCoreBlocks();
-      res.json({ synced: { coreBlocks: coreCount } });
+      const job = await startBundledImport();
+      if (!job) {
+        return res.status(404).json({ error: "No backfill data file found" });
+      }
+      res.status(202).json(job);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
-  syncAllPlatformEpochs().catch(() => {});
+  app.get("/api/admin/backfill", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await getBackfillProgress());
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-  async function seedAndBackfill() {
-    for (let attempt = 0; attempt < 20; attempt++) {
-      const count = await syncNewCoreBlocks().catch(() => 0);
-      if (count > 0) break;
-      log(`Seed attempt ${attempt + 1}: waiting to retry...`, "dashService");
-      await new Promise(r => setTimeout(r, 5000 + attempt * 3000));
+  app.post("/api/admin/backfill/start", requireAdmin, async (_req, res) => {
+    try {
+      if ((await getBackfillProgress()).running) {
+        return res.status(409).json({ error: "Backfill is already running" });
+      }
+      startJob(res, "core-backfill", "Backfill is already running");
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
     }
-    startCoreBackfill().catch((err: any) => log(`Backfill start error: ${err.message}`, "dashService"));
+  });
+
+  for (const action of ["pause", "cancel"] as const) {
+    app.post(`/api/admin/backfill/${action}`, requireAdmin, async (_req, res) => {
+      try {
+        const stopped = await stopCoreBackfill(action === "pause" ? "paused" : "cancelled");
+        if (!stopped) {
+          return res.status(409).json({ error: `Nothing to ${action}` });
+        }
+        res.json(await getBackfillProgress());
+      } catch (err: any) {
+        res.status(500).json({ error: err.message });
+      }
+    });
   }
-  seedAndBackfill();
 
-  setInterval(() => {
-    syncNewCoreBlocks().catch(() => {});
-  }, 5 * 60 * 1000);
+  app.put("/api/admin/backfill/target", requireAdmin, async (req, res) => {
+    try {
+      const parsed = backfillTargetBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      await retargetCoreBackfill(parsed.data.height);
+      res.json(await getBackfillProgress());
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-  setInterval(() => {
-    syncAllPlatformEpochs().catch(() => {});
-  }, 15 * 60 * 1000);
+  app.post("/api/admin/platform/resync", requireAdmin, async (req, res) => {
+    try {
+      const parsed = epochResyncBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (isPlatformResyncRunning()) {
+        return res.status(409).json({ error: "A platform resync is already running" });
+      }
+      const { fromEpoch, toEpoch } = parsed.data;
+      // Shares the platform sync's lock, so no two instances write the same epochs at once
+      const started = await startWithJobLock("sync-platform", () => resyncPlatformEpochs(fromEpoch, toEpoch));
+      if (!started) {
+        return res.status(409).json({ error: "A platform sync or resync is already running" });
+      }
+      res.status(202).json({ started: true, fromEpoch, toEpoch });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/admin/log", requireAdmin, async (req, res) => {
+    try {
+      const parsed = jobLogQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      res.json(await getJobLog(parsed.data.limit, parsed.data.job));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/jobs", requireAdmin, (_req, res) => {
+    res.json(listJobs());
+  });
+
+  app.get("/api/jobs/runs", requireAdmin, async (req, res) => {
+    try {
+      const parsed = jobRunsQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      res.json(await getJobRuns(parsed.data.limit, parsed.data.job));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.post<{ name: string }>("/api/jobs/:name/run", requireAdmin, (req, res) => {
+    const result = triggerJob(req.params.name);
+    if (result === "unknown") return res.status(404).json({ error: `Unknown job ${req.params.name}` });
+    if (result === "running") return res.status(409).json({ error: `Job ${req.params.name} is already running` });
+    res.status(202).json({ started: req.params.name });
+  });
+
+  app.post("/api/sync", requireAdmin, (_req, res) => {
+    startJob(res, "sync-core", "Core sync already running");
+  });
 
   return httpServer;
 }
@@ -0,0 +1,256 @@
+import os from "os";
+import pg from "pg";
+import { log } from "./index";
+import { db } from "./db";
+import { jobRuns, type JobRun } from "@shared/schema";
+import { and, desc, eq, lt } from "drizzle-orm";
+
+// Run history older than this is pruned when the job next finishes
+const RUN_RETENTION_MS = 14 * 24 * 3600_000;
+const MAX_RESULT_LENGTH = 2000;
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// Session advisory locks are tied to the connection that took them, so every exclusive run holds
+// a connection for its whole duration. They come from a separate pool so long syncs can't starve
+// the queries the jobs themselves make.
+const lockPool = new pg.Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: 12,
+});
+
+export interface JobContext {
+  trigger: "startup" | "schedule" | "manual";
+}
+
+export interface JobDefinition {
+  name: string;
+  // null for jobs that only run at startup or when triggered
+  intervalMs: number | null;
+  runOnStart?: boolean;
+  // Per-instance jobs (clearing in-memory state) skip the cross-instance advisory lock
+  exclusive?: boolean;
+  run: (context: JobContext) => Promise<unknown>;
+}
+
+interface JobState {
+  definition: JobDefinition;
+  running: boolean;
+  timer: NodeJS.Timeout | null;
+  nextRunAt: number | null;
+  lastStartedAt: number | null;
+  lastFinishedAt: number | null;
+  lastStatus: "success" | "error" | "skipped" | null;
+  lastError: string | null;
+}
+
+const jobs = new Map<string, JobState>();
+let started = false;
+
+// JOB_INTERVAL_SYNC_CORE=2 runs "sync-core" every 2 minutes; 0 turns the schedule off
+function configuredInterval(name: string, fallback: number | null): number | null {
+  const raw = process.env[`JOB_INTERVAL_${name.toUpperCase().replace(/-/g, "_")}`];
+  if (raw == null || raw.trim() === "") return fallback;
+  const minutes = parseFloat(raw);
+  if (isNaN(minutes) || minutes < 0) {
+    log(`Ignoring invalid interval "${raw}" for job ${name}`, "scheduler");
+    return fallback;
+  }
+  return minutes === 0 ? null : minutes * 60_000;
+}
+
+export function registerJob(definition: JobDefinition) {
+  if (jobs.has(definition.name)) throw new Error(`Job ${definition.name} is already registered`);
+  jobs.set(definition.name, {
+    definition: { ...definition, intervalMs: configuredInterval(definition.name, definition.intervalMs) },
+    running: false,
+    timer: null,
+    nextRunAt: null,
+    lastStartedAt: null,
+    lastFinishedAt: null,
+    lastStatus: null,
+    lastError: null,
+  });
+}
+
+function summarize(result: unknown): string | null {
+  if (result === undefined) return null;
+  const text = JSON.stringify(result) ?? null;
+  return text && text.length > MAX_RESULT_LENGTH ? text.slice(0, MAX_RESULT_LENGTH) + "…" : text;
+}
+
+function schedule(state: JobState) {
+  const { intervalMs } = state.definition;
+  if (state.timer) clearTimeout(state.timer);
+  if (!started || intervalMs == null) {
+    state.timer = null;
+    state.nextRunAt = null;
+    return;
+  }
+  state.nextRunAt = Date.now() + intervalMs;
+  state.timer = setTimeout(() => runJob(state), intervalMs);
+}
+
+// With `wait` this blocks until the holder releases the lock
+async function acquireJobLock(client: pg.PoolClient, name: string, wait = false): Promise<boolean> {
+  if (wait) {
+    await client.query("SELECT pg_advisory_lock(hashtext($1))", [`job:${name}`]);
+    return true;
+  }
+  const { rows } = await client.query("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [`job:${name}`]);
+  return rows[0]?.locked === true;
+}
+
+async function releaseJobLock(client: pg.PoolClient, name: string) {
+  await client.query("SELECT pg_advisory_unlock(hashtext($1))", [`job:${name}`]).catch(() => {});
+}
+
+async function runJob(state: JobState, trigger: JobContext["trigger"] = "schedule") {
+  const { name, exclusive = true } = state.definition;
+  if (state.running) return;
+  state.running = true;
+
+  let lockClient: pg.PoolClient | null = null;
+  let locked = false;
+  try {
+    if (exclusive) {
+      lockClient = await lockPool.connect();
+      locked = await acquireJobLock(lockClient, name);
+      if (!locked) {
+        // Another instance holds the job; leave the run to it
+        state.lastStatus = "skipped";
+        return;
+      }
+    }
+
+    const startedAt = Date.now();
+    state.lastStartedAt = startedAt;
+    const [run] = await db.insert(jobRuns)
+      .values({ job: name, instance: INSTANCE_ID, startedAt, status: "running" })
+      .returning({ id: jobRuns.id });
+
+    let status: "success" | "error" = "success";
+    let result: string | null = null;
+    let error: string | null = null;
+    try {
+      result = summarize(await state.definition.run({ trigger }));
+    } catch (err: any) {
+      status = "error";
+      error = err.message || String(err);
+      log(`Job ${name} failed: ${error}`, "scheduler");
+    }
+
+    const finishedAt = Date.now();
+    state.lastFinishedAt = finishedAt;
+    state.lastStatus = status;
+    state.lastError = error;
+    await db.update(jobRuns)
+      .set({ finishedAt, durationMs: finishedAt - startedAt, status, result, error })
+      .where(eq(jobRuns.id, run.id));
+    await db.delete(jobRuns)
+      .where(and(eq(jobRuns.job, name), lt(jobRuns.startedAt, finishedAt - RUN_RETENTION_MS)));
+  } catch (err: any) {
+    // Bookkeeping failed (database down); the next tick tries again
+    state.lastStatus = "error";
+    state.lastError = err.message;
+    log(`Job ${name} scheduling error: ${err.message}`, "scheduler");
+  } finally {
+    if (lockClient) {
+      if (locked) await releaseJobLock(lockClient, name);
+      lockClient.release();
+    }
+    state.running = false;
+    schedule(state);
+  }
+}
+
+export function startScheduler() {
+  if (started) return;
+  started = true;
+  for (const state of Array.from(jobs.values())) {
+    if (state.definition.runOnStart) runJob(state, "startup");
+    else schedule(state);
+  }
+  log(`Scheduler started with ${jobs.size} job(s) on ${INSTANCE_ID}`, "scheduler");
+}
+
+export function stopScheduler() {
+  started = false;
+  for (const state of Array.from(jobs.values())) schedule(state);
+}
+
+export type TriggerResult = "started" | "running" | "unknown";
+
+// Runs the job now and restarts its interval from this run
+export function triggerJob(name: string): TriggerResult {
+  const state = jobs.get(name);
+  if (!state) return "unknown";
+  if (state.running) return "running";
+  if (state.timer) clearTimeout(state.timer);
+  runJob(state, "manual");
+  return "started";
+}
+
+// Runs work that belongs to a job (a ZMQ-announced block for "sync-core") under that job's lock
+// without recording a run. Returns null when another holder has it and `wait` is off.
+export async function withJobLock<T>(name: string, task: () => Promise<T>, wait = false): Promise<T | null> {
+  const client = await lockPool.connect();
+  let locked = false;
+  try {
+    locked = await acquireJobLock(client, name, wait);
+    return locked ? await task() : null;
+  } finally {
+    if (locked) await releaseJobLock(client, name);
+    client.release();
+  }
+}
+
+// For manual actions that take arguments (an epoch range to resync): takes the job's lock, starts
+// the task in the background and resolves true, or false straight away if the lock is held
+export async function startWithJobLock(name: string, task: () => Promise<unknown>): Promise<boolean> {
+  const client = await lockPool.connect();
+  let locked = false;
+  try {
+    locked = await acquireJobLock(client, name);
+  } finally {
+    if (!locked) client.release();
+  }
+  if (!locked) return false;
+
+  task()
+    .catch((err: any) => log(`Manual ${name} run failed: ${err.message}`, "scheduler"))
+    .finally(async () => {
+      await releaseJobLock(client, name);
+      client.release();
+    });
+  return true;
+}
+
+// Whether this or any other instance is running the job right now, judged by its lock
+export async function isJobRunning(name: string): Promise<boolean> {
+  if (jobs.get(name)?.running) return true;
+  const free = await withJobLock(name, async () => true);
+  return free === null;
+}
+
+export function listJobs() {
+  return Array.from(jobs.values()).map((state) => ({
+    name: state.definition.name,
+    intervalMs: state.definition.intervalMs,
+    exclusive: state.definition.exclusive ?? true,
+    running: state.running,
+    nextRunAt: state.nextRunAt,
+    lastStartedAt: state.lastStartedAt,
+    lastFinishedAt: state.lastFinishedAt,
+    lastStatus: state.lastStatus,
+    lastError: state.lastError,
+  }));
+}
+
+export async function getJobRuns(limit: number, job?: string): Promise<JobRun[]> {
+  return db.select()
+    .from(jobRuns)
+    .where(job ? eq(jobRuns.job, job) : undefined)
+    .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+    .limit(limit);
+}
@@ -1,5 +1,68 @@
-export interface IStorage {}
+import { db } from "./db";
+import { apiTokens, users, type ApiToken, type InsertUser, type User, type UserRole } from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
 
-export class MemStorage implements IStorage {}
+export interface IStorage {
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser, role?: UserRole): Promise<User>;
+  setUserRole(id: string, role: UserRole): Promise<void>;
+  createApiToken(userId: string, name: string, tokenHash: string): Promise<ApiToken>;
+  getActiveApiToken(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+  listApiTokens(): Promise<ApiToken[]>;
+  revokeApiToken(id: number): Promise<boolean>;
+}
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser, role: UserRole = "viewer"): Promise<User> {
+    const [created] = await db.insert(users).values({ ...user, role }).returning();
+    return created;
+  }
+
+  async setUserRole(id: string, role: UserRole): Promise<void> {
+    await db.update(users).set({ role }).where(eq(users.id, id));
+  }
+
+  async createApiToken(userId: string, name: string, tokenHash: string): Promise<ApiToken> {
+    const [token] = await db.insert(apiTokens)
+      .values({ userId, name, tokenHash, createdAt: Date.now() })
+      .returning();
+    return token;
+  }
+
+  async getActiveApiToken(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.tokenHash, tokenHash), isNull(apiTokens.revokedAt)));
+    return token;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: Date.now() }).where(eq(apiTokens.id, id));
+  }
+
+  async listApiTokens(): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async revokeApiToken(id: number): Promise<boolean> {
+    const revoked = await db.update(apiTokens)
+      .set({ revokedAt: Date.now() })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return revoked.length > 0;
+  }
+}
+
+export const storage = new DatabaseStorage();
@@ -0,0 +1,299 @@
+import { log } from "./index";
+import { db } from "./db";
+import { coreBlockFees, coreBlockTxTypes, coreTransactions, type CoreTxType } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { checkRpcAvailability, getRpcConfig, rpcCall } from "./dashService";
+
+const DUFFS_PER_DASH = 100_000_000;
+const INSERT_CHUNK = 500;
+
+// DIP2 special transaction `type` values
+const SPECIAL_TX_TYPES: Record<number, CoreTxType> = {
+  1: "pro-reg",
+  2: "pro-up-serv",
+  3: "pro-up-reg",
+  4: "pro-up-rev",
+  5: "coinbase",
+  6: "quorum-commitment",
+  7: "mn-hard-fork",
+  8: "asset-lock",
+  9: "asset-unlock",
+};
+
+// Mixing rounds pay every participant one output of the same standard denomination, in duffs
+const COINJOIN_DENOMINATIONS = new Set([1_000_010_000, 100_001_000, 10_000_100, 1_000_010, 100_001]);
+
+// Upper bounds of the fee-rate histogram bins in duffs per byte; the last bin is open-ended
+const FEE_RATE_EDGES = [1, 2, 5, 10, 20, 50, 100, 1000];
+
+interface BlockRef {
+  hash: string;
+  height: number;
+  time: number;
+}
+
+export type TxIngestMode = "off" | "types" | "deep";
+
+// CORE_TX_INGEST: "deep" stores every transaction as well as the per-block type counts, "types"
+// only the counts. Unset means off: each ingested block costs an extra verbosity-2 `getblock`, and
+// the tx-ingest job then works back through the whole cached history. All of it needs Dash Core RPC.
+export function txIngestMode(): TxIngestMode {
+  if (!getRpcConfig().configured) return "off";
+  const mode = process.env.CORE_TX_INGEST;
+  return mode === "deep" || mode === "types" ? mode : "off";
+}
+
+export function isDeepIngestEnabled(): boolean {
+  return txIngestMode() === "deep";
+}
+
+function isCoinJoin(tx: any): boolean {
+  const outputs: any[] = tx.vout || [];
+  if (outputs.length < 3 || outputs.length !== (tx.vin || []).length) return false;
+  const denomination = Math.round(outputs[0].value * DUFFS_PER_DASH);
+  return COINJOIN_DENOMINATIONS.has(denomination)
+    && outputs.every((o) => Math.round(o.value * DUFFS_PER_DASH) === denomination);
+}
+
+export function classifyTransaction(tx: any): CoreTxType {
+  const special = SPECIAL_TX_TYPES[Number(tx.type) || 0];
+  if (special) return special;
+  if (tx.vin?.[0]?.coinbase !== undefined) return "coinbase";
+  return isCoinJoin(tx) ? "coinjoin" : "classic";
+}
+
+// Verbosity 2 decodes every transaction; `fee` is only there when the node has the block's undo data
+export async function fetchVerboseBlock(hash: string): Promise<any> {
+  return rpcCall("getblock", [hash, 2], 60_000);
+}
+
+function outputTotal(tx: any): number {
+  return (tx.vout || []).reduce((sum: number, o: any) => sum + (Number(o.value) || 0), 0);
+}
+
+// An asset lock burns the credited amount into its OP_RETURN output
+function assetLockAmount(tx: any): number {
+  const burn = (tx.vout || []).find((o: any) => o.scriptPubKey?.type === "nulldata");
+  if (burn) return Number(burn.value) || 0;
+  const credits: any[] = Array.isArray(tx.assetLockTx?.creditOutputs) ? tx.assetLockTx.creditOutputs : [];
+  return credits.reduce((sum, o) => sum + (Number(o?.value) || 0), 0);
+}
+
+async function recordTypeCounts(block: BlockRef, txs: any[]) {
+  const byType = new Map<CoreTxType, { count: number; amount: number }>();
+  for (const tx of txs) {
+    const txType = classifyTransaction(tx);
+    const entry = byType.get(txType) ?? { count: 0, amount: 0 };
+    entry.count++;
+    entry.amount += txType === "asset-lock" ? assetLockAmount(tx) : outputTotal(tx);
+    byType.set(txType, entry);
+  }
+  if (byType.size === 0) return;
+  await db.insert(coreBlockTxTypes).values(Array.from(byType, ([txType, e]) => ({
+    blockHash: block.hash,
+    height: block.height,
+    time: block.time,
+    txType,
+    count: e.count,
+    amount: e.amount,
+  }))).onConflictDoNothing();
+}
+
+export async function recordBlockTransactions(block: BlockRef): Promise<number> {
+  const mode = txIngestMode();
+  if (mode === "off" || !(await checkRpcAvailability())) return 0;
+
+  const verbose = await fetchVerboseBlock(block.hash);
+  const txs: any[] = verbose.tx || [];
+  await recordTypeCounts(block, txs);
+  if (mode !== "deep") return txs.length;
+
+  const rows = txs.map((tx: any) => {
+    const txType = classifyTransaction(tx);
+    const size = Number(tx.size) || 0;
+    const fee = txType !== "coinbase" && typeof tx.fee === "number" ? tx.fee : null;
+    return {
+      txid: tx.txid,
+      blockHash: block.hash,
+      height: block.height,
+      time: block.time,
+      txType,
+      size,
+      fee,
+      feeRate: fee != null && size > 0 ? (fee * DUFFS_PER_DASH) / size : null,
+      // The node's own InstantSend lock, not the ChainLock that `instantlock` also reflects
+      instantSend: tx.instantlock_internal === true,
+    };
+  });
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    await db.insert(coreTransactions).values(rows.slice(i, i + INSERT_CHUNK)).onConflictDoNothing();
+  }
+  return rows.length;
+}
+
+// Cached blocks not yet ingested at the current mode's depth, newest first. Every block has a
+// coinbase, so an ingested block always has rows in both tables.
+export async function findBlocksMissingTransactions(limit: number): Promise<BlockRef[]> {
+  const table = isDeepIngestEnabled() ? coreTransactions : coreBlockTxTypes;
+  const result = await db.execute<{ hash: string; height: number; time: number }>(sql`
+    SELECT ${coreBlockFees.hash} AS hash, ${coreBlockFees.height} AS height, ${coreBlockFees.time} AS "time"
+    FROM ${coreBlockFees}
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ${table} WHERE ${table.blockHash} = ${coreBlockFees.hash}
+    )
+    ORDER BY ${coreBlockFees.height} DESC
+    LIMIT ${limit}
+  `);
+  return result.rows.map((r) => ({ hash: r.hash, height: Number(r.height), time: Number(r.time) }));
+}
+
+export async function syncBlockTransactions(maxBlocks: number = 50): Promise<number> {
+  if (txIngestMode() === "off") return 0;
+  try {
+    const blocks = await findBlocksMissingTransactions(maxBlocks);
+    let recorded = 0;
+    for (const block of blocks) {
+      recorded += await recordBlockTransactions(block);
+    }
+    if (blocks.length > 0) {
+      log(`Ingested ${recorded} transactions from ${blocks.length} blocks`, "transactions");
+    }
+    return recorded;
+  } catch (err: any) {
+    log(`Transaction ingestion error: ${err.message}`, "transactions");
+    return 0;
+  }
+}
+
+function histogramBins(rows: Array<Record<string, unknown>>) {
+  const byBin = new Map(rows.map((r) => [Number(r.bin), r]));
+  return [0, ...FEE_RATE_EDGES].map((from, i) => {
+    const row = byBin.get(i);
+    return {
+      from,
+      to: i < FEE_RATE_EDGES.length ? FEE_RATE_EDGES[i] : null,
+      count: Number(row?.count || 0),
+      fees: Number(row?.fees || 0),
+    };
+  });
+}
+
+export async function getFeeRateDistribution(sinceSeconds: number, untilSeconds: number | undefined, txType?: CoreTxType) {
+  const until = untilSeconds ?? Math.floor(Date.now() / 1000);
+  const inWindow = sql`"time" >= ${sinceSeconds} AND "time" <= ${until}`;
+  const ofType = txType ? sql` AND tx_type = ${txType}` : sql``;
+  const edges = sql.raw(`ARRAY[${FEE_RATE_EDGES.join(",")}]::real[]`);
+
+  const [summary, histogram, byType, coverage] = await Promise.all([
+    db.execute(sql`
+      SELECT
+        COUNT(*) AS transactions,
+        COUNT(fee_rate) AS with_fee,
+        COALESCE(SUM(fee), 0) AS total_fees,
+        COUNT(*) FILTER (WHERE instant_send) AS instant_send,
+        AVG(size) AS avg_size,
+        AVG(fee_rate) AS rate_mean,
+        percentile_cont(0.1) WITHIN GROUP (ORDER BY fee_rate) AS rate_p10,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY fee_rate) AS rate_median,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY fee_rate) AS rate_p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY fee_rate) AS rate_p99
+      FROM ${coreTransactions}
+      WHERE ${inWindow}${ofType}
+    `),
+    db.execute(sql`
+      SELECT width_bucket(fee_rate, ${edges}) AS bin, COUNT(*) AS count, SUM(fee) AS fees
+      FROM ${coreTransactions}
+      WHERE ${inWindow}${ofType} AND fee_rate IS NOT NULL
+      GROUP BY bin
+    `),
+    db.execute(sql`
+      SELECT
+        tx_type,
+        COUNT(*) AS count,
+        COALESCE(SUM(fee), 0) AS fees,
+        COUNT(*) FILTER (WHERE instant_send) AS instant_send,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY fee_rate) AS median_rate
+      FROM ${coreTransactions}
+      WHERE ${inWindow}
+      GROUP BY tx_type
+      ORDER BY count DESC
+    `),
+    db.execute(sql`
+      SELECT
+        (SELECT COUNT(*) FROM ${coreBlockFees} WHERE ${inWindow}) AS cached,
+        (SELECT COUNT(DISTINCT block_hash) FROM ${coreTransactions} WHERE ${inWindow}) AS ingested
+    `),
+  ]);
+
+  const s = summary.rows[0] ?? {};
+  const c = coverage.rows[0] ?? {};
+  const rate = (key: string) => (s[key] != null ? Number(s[key]) : null);
+  return {
+    enabled: isDeepIngestEnabled(),
+    type: txType ?? null,
+    blocks: { cached: Number(c.cached || 0), ingested: Number(c.ingested || 0) },
+    transactions: Number(s.transactions || 0),
+    withFee: Number(s.with_fee || 0),
+    totalFees: Number(s.total_fees || 0),
+    instantSend: Number(s.instant_send || 0),
+    avgSize: Number(s.avg_size || 0),
+    feeRate: {
+      mean: rate("rate_mean"),
+      p10: rate("rate_p10"),
+      median: rate("rate_median"),
+      p90: rate("rate_p90"),
+      p99: rate("rate_p99"),
+    },
+    histogram: histogramBins(histogram.rows),
+    byType: byType.rows.map((r) => ({
+      type: String(r.tx_type) as CoreTxType,
+      count: Number(r.count),
+      fees: Number(r.fees),
+      instantSend: Number(r.instant_send),
+      medianFeeRate: r.median_rate != null ? Number(r.median_rate) : null,
+    })),
+  };
+}
+
+export interface TxTypeBucket {
+  time: number;
+  txType: CoreTxType;
+  count: number;
+  amount: number;
+}
+
+// Type counts summed per UTC hour or day (or per block, for zones off the whole hour), ready to be
+// regrouped into zoned buckets like the fee rollups
+export async function getTxTypeBuckets(
+  granularity: "block" | "hour" | "day",
+  sinceSeconds: number,
+  untilSeconds?: number,
+): Promise<TxTypeBucket[]> {
+  const until = untilSeconds ?? Math.floor(Date.now() / 1000);
+  const step = granularity === "day" ? 86400 : granularity === "hour" ? 3600 : 1;
+  const result = await db.execute<{ time: number; tx_type: string; count: number; amount: number }>(sql`
+    SELECT ("time" / ${step}) * ${step} AS "time", tx_type, SUM(count) AS count, SUM(amount) AS amount
+    FROM ${coreBlockTxTypes}
+    WHERE "time" >= ${sinceSeconds} AND "time" <= ${until}
+    GROUP BY 1, tx_type
+    ORDER BY 1
+  `);
+  return result.rows.map((r) => ({
+    time: Number(r.time),
+    txType: r.tx_type as CoreTxType,
+    count: Number(r.count),
+    amount: Number(r.amount),
+  }));
+}
+
+export async function countBlocksWithTxTypes(sinceSeconds: number, untilSeconds?: number) {
+  const until = untilSeconds ?? Math.floor(Date.now() / 1000);
+  const result = await db.execute<{ cached: number; counted: number }>(sql`
+    SELECT
+      (SELECT COUNT(*) FROM ${coreBlockFees} WHERE "time" >= ${sinceSeconds} AND "time" <= ${until}) AS cached,
+      (SELECT COUNT(DISTINCT block_hash) FROM ${coreBlockTxTypes} WHERE "time" >= ${sinceSeconds} AND "time" <= ${until}) AS counted
+  `);
+  const row = result.rows[0];
+  return { cached: Number(row?.cached || 0), counted: Number(row?.counted || 0) };
+}
@@ -0,0 +1,137 @@
+import { log } from "./index";
+import { db } from "./db";
+import { coreBlockFees, superblockPayouts } from "@shared/schema";
+import { desc, eq, inArray, sql } from "drizzle-orm";
+import { rpcCall, checkRpcAvailability } from "./dashService";
+import { findTreasuryOutputs, type BlockData } from "./blockSources";
+import { getConsensusParams, getTreasurySubsidy, isSuperblock, TARGET_BLOCK_SPACING } from "./consensus";
+
+// Superblocks that were fetched but paid nothing, so the payout sync doesn't refetch them every run
+const emptySuperblocks = new Set<number>();
+
+interface TriggerPayment {
+  address: string;
+  amount: number;
+  proposalHash: string;
+}
+
+async function fetchTriggerPayments(height: number): Promise<TriggerPayment[]> {
+  if (!(await checkRpcAvailability())) return [];
+  try {
+    const triggers = await rpcCall("gobject", ["list", "all", "triggers"]);
+    const payments: TriggerPayment[] = [];
+    for (const obj of Object.values<any>(triggers || {})) {
+      let data = JSON.parse(obj.DataString || "{}");
+      if (Array.isArray(data)) data = data[0]?.[1] || {};
+      if (Number(data.event_block_height) !== height) continue;
+
+      const addresses = String(data.payment_addresses || "").split("|");
+      const amounts = String(data.payment_amounts || "").split("|");
+      const hashes = String(data.proposal_hashes || "").split("|");
+      addresses.forEach((address, i) => {
+        if (!address || !hashes[i]) return;
+        payments.push({ address, amount: parseFloat(amounts[i]) || 0, proposalHash: hashes[i] });
+      });
+    }
+    return payments;
+  } catch (err: any) {
+    log(`Superblock trigger lookup failed for ${height}: ${err.message}`, "treasury");
+    return [];
+  }
+}
+
+export async function recordSuperblockPayouts(block: BlockData): Promise<number> {
+  if (!isSuperblock(block.height) || !block.coinbaseOutputs) return 0;
+
+  const outputs = findTreasuryOutputs(block.height, block.coinbaseOutputs, block.totalFees);
+  if (outputs.length === 0) {
+    emptySuperblocks.add(block.height);
+    return 0;
+  }
+
+  const triggerPayments = await fetchTriggerPayments(block.height);
+  const rows = outputs.map((o) => {
+    const matchIndex = triggerPayments.findIndex(
+      (p) => p.address === o.address && Math.abs(p.amount - o.value) < 0.00000001,
+    );
+    const proposalHash = matchIndex >= 0 ? triggerPayments.splice(matchIndex, 1)[0].proposalHash : null;
+    return {
+      height: block.height,
+      blockHash: block.hash,
+      time: block.time,
+      vout: o.vout,
+      payee: o.address || "unknown",
+      amount: o.value,
+      proposalHash,
+    };
+  });
+
+  await db.insert(superblockPayouts).values(rows).onConflictDoNothing();
+  const total = rows.reduce((s, r) => s + r.amount, 0);
+  log(`Superblock ${block.height}: ${rows.length} treasury payouts, ${total.toFixed(2)} DASH`, "treasury");
+  return rows.length;
+}
+
+export async function findSuperblocksMissingPayouts(limit: number): Promise<number[]> {
+  const { superblockCycle, superblockStartBlock } = getConsensusParams();
+  const result = await db.execute<{ height: number }>(sql`
+    SELECT DISTINCT ${coreBlockFees.height} AS height
+    FROM ${coreBlockFees}
+    WHERE ${coreBlockFees.height} % ${superblockCycle} = 0
+      AND ${coreBlockFees.height} >= ${superblockStartBlock}
+      AND NOT EXISTS (
+        SELECT 1 FROM ${superblockPayouts} WHERE ${superblockPayouts.height} = ${coreBlockFees.height}
+      )
+    ORDER BY height DESC
+  `);
+  return result.rows
+    .map((r) => Number(r.height))
+    .filter((h) => !emptySuperblocks.has(h))
+    .slice(0, limit);
+}
+
+export async function getSuperblockSummaries(limit: number = 12, currentHeight?: number) {
+  const { superblockCycle } = getConsensusParams();
+
+  const heads = await db.select({
+    height: superblockPayouts.height,
+    blockHash: superblockPayouts.blockHash,
+    time: superblockPayouts.time,
+    paid: sql<number>`SUM(${superblockPayouts.amount})`,
+  })
+    .from(superblockPayouts)
+    // Only payouts of blocks still on the cached chain; a reorg can leave an orphan's behind
+    .innerJoin(coreBlockFees, eq(coreBlockFees.hash, superblockPayouts.blockHash))
+    .groupBy(superblockPayouts.height, superblockPayouts.blockHash, superblockPayouts.time)
+    .orderBy(desc(superblockPayouts.height))
+    .limit(limit);
+
+  const heights = heads.map((h) => h.height);
+  const payouts = heights.length > 0
+    ? await db.select().from(superblockPayouts).where(inArray(superblockPayouts.height, heights))
+    : [];
+
+  const superblocks = heads.map((h) => ({
+    height: h.height,
+    blockHash: h.blockHash,
+    time: h.time,
+    paid: Number(h.paid),
+    available: getTreasurySubsidy(h.height) * superblockCycle,
+    payouts: payouts
+      .filter((p) => p.blockHash === h.blockHash)
+      .sort((a, b) => a.vout - b.vout)
+      .map((p) => ({ vout: p.vout, payee: p.payee, amount: p.amount, proposalHash: p.proposalHash })),
+  }));
+
+  let nextSuperblock = null;
+  if (currentHeight) {
+    const height = Math.ceil((currentHeight + 1) / superblockCycle) * superblockCycle;
+    nextSuperblock = {
+      height,
+      estimatedTime: Math.floor(Date.now() / 1000) + (height - currentHeight) * TARGET_BLOCK_SPACING,
+      available: getTreasurySubsidy(height) * superblockCycle,
+    };
+  }
+
+  return { superblocks, nextSuperblock };
+}
@@ -0,0 +1,133 @@
+import type { Subscriber } from "zeromq";
+import { log } from "./index";
+import { ingestNotifiedBlock, syncNewCoreBlocks } from "./dashService";
+import { withJobLock } from "./scheduler";
+
+// Dash Core publishes these with -zmqpubhashblock / -zmqpubrawblock; either one is enough
+const TOPICS = ["hashblock", "rawblock"];
+
+const status = {
+  url: null as string | null,
+  connected: false,
+  notifications: 0,
+  ingested: 0,
+  lastNotificationAt: null as number | null,
+  lastError: null as string | null,
+};
+
+let socket: Subscriber | null = null;
+// Notifications are handled one at a time, in the order the node sent them
+let queue: Promise<void> = Promise.resolve();
+const lastSequence = new Map<string, number>();
+
+type BlockNotice = { hash: string } | { prevHash: string };
+
+function parseNotice(topic: string, body: Buffer): BlockNotice | null {
+  if (topic === "hashblock" && body.length === 32) {
+    return { hash: body.toString("hex") };
+  }
+  // The header's previous-block hash, stored little-endian
+  if (topic === "rawblock" && body.length >= 80) {
+    return { prevHash: Buffer.from(body.subarray(4, 36)).reverse().toString("hex") };
+  }
+  return null;
+}
+
+// Every instance hears every notification, so ingestion waits for the "sync-core" job lock
+// rather than racing the scheduled sync (or another instance) through reorg checks and inserts
+function enqueue(task: () => Promise<number>) {
+  queue = queue
+    .then(async () => {
+      status.ingested += (await withJobLock("sync-core", task, true)) ?? 0;
+    })
+    .catch((err: any) => {
+      status.lastError = err.message;
+      log(`Block notification error: ${err.message}`, "zmq");
+    });
+}
+
+function handleMessage(topic: string, body: Buffer, sequence: Buffer | undefined) {
+  status.notifications++;
+  status.lastNotificationAt = Date.now();
+
+  // Each topic carries its own counter; a jump means notifications were dropped, so catch up
+  // with a forward sync rather than trusting this one block
+  if (sequence && sequence.length === 4) {
+    const seq = sequence.readUInt32LE(0);
+    const previous = lastSequence.get(topic);
+    lastSequence.set(topic, seq);
+    if (previous !== undefined && seq !== ((previous + 1) >>> 0)) {
+      log(`Missed ${topic} notifications (${previous} -> ${seq}), running a forward sync`, "zmq");
+      enqueue(syncNewCoreBlocks);
+      return;
+    }
+  }
+
+  const notice = parseNotice(topic, body);
+  if (!notice) {
+    log(`Ignoring malformed ${topic} message (${body.length} bytes)`, "zmq");
+    return;
+  }
+  enqueue(() => ingestNotifiedBlock(notice));
+}
+
+// No-op unless DASH_ZMQ_URL is set (e.g. tcp://127.0.0.1:28332). The scheduled sync keeps running
+// as a safety net for anything a notification misses.
+export async function startZmqSubscriber() {
+  const url = process.env.DASH_ZMQ_URL;
+  if (!url || socket) return;
+
+  let zmq: typeof import("zeromq");
+  try {
+    zmq = await import("zeromq");
+  } catch (err: any) {
+    log(`DASH_ZMQ_URL is set but zeromq could not be loaded: ${err.message}`, "zmq");
+    return;
+  }
+
+  const sock = new zmq.Subscriber();
+  socket = sock;
+  status.url = url;
+  sock.events.on("connect", () => {
+    status.connected = true;
+    log(`Connected to ${url}`, "zmq");
+  });
+  sock.events.on("disconnect", () => {
+    status.connected = false;
+    // The node may have restarted with fresh counters
+    lastSequence.clear();
+    log(`Disconnected from ${url}, reconnecting`, "zmq");
+  });
+
+  // The socket reconnects by itself, so connect only fails on a malformed endpoint
+  try {
+    sock.connect(url);
+  } catch (err: any) {
+    socket = null;
+    status.lastError = err.message;
+    log(`Invalid DASH_ZMQ_URL ${url}: ${err.message}`, "zmq");
+    return;
+  }
+  for (const topic of TOPICS) sock.subscribe(topic);
+  log(`Subscribed to ${TOPICS.join(", ")} at ${url}`, "zmq");
+
+  (async () => {
+    for await (const [topic, body, sequence] of sock) {
+      handleMessage(topic.toString(), body, sequence);
+    }
+  })().catch((err: any) => {
+    status.connected = false;
+    status.lastError = err.message;
+    log(`Subscriber stopped: ${err.message}`, "zmq");
+  });
+}
+
+export function stopZmqSubscriber() {
+  socket?.close();
+  socket = null;
+  status.connected = false;
+}
+
+export function getZmqStatus() {
+  return { enabled: status.url !== null, ...status };
+}
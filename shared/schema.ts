@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, timestamp, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, bigint, serial, uniqueIndex, boolean, index, json } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,7 +10,9 @@ export const coreBlockFees = pgTable("core_block_fees", {
   totalFees: real("total_fees").notNull(),
   reward: real("reward").notNull(),
   txCount: integer("tx_count").notNull(),
-});
+}, (table) => [
+  index("core_block_fees_time_idx").on(table.time),
+]);
 
 export const platformEpochFees = pgTable("platform_epoch_fees", {
   epochNumber: integer("epoch_number").primaryKey(),
@@ -36,10 +38,264 @@ export const syncState = pgTable("sync_state", {
 
 export type SyncState = typeof syncState.$inferSelect;
 
+// Operator-facing history of sync jobs (backfill, resyncs) shown in the admin console
+export const jobLog = pgTable("job_log", {
+  id: serial("id").primaryKey(),
+  time: bigint("time", { mode: "number" }).notNull(),
+  job: varchar("job", { length: 32 }).notNull(),
+  level: varchar("level", { length: 8 }).notNull(),
+  message: text("message").notNull(),
+}, (table) => [
+  index("job_log_time_idx").on(table.time),
+]);
+
+export type JobLogEntry = typeof jobLog.$inferSelect;
+
+// One row per scheduled job run; status moves from "running" to "success" or "error"
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job: varchar("job", { length: 48 }).notNull(),
+  instance: varchar("instance", { length: 64 }).notNull(),
+  startedAt: bigint("started_at", { mode: "number" }).notNull(),
+  finishedAt: bigint("finished_at", { mode: "number" }),
+  durationMs: integer("duration_ms"),
+  status: varchar("status", { length: 16 }).notNull(),
+  result: text("result"),
+  error: text("error"),
+}, (table) => [
+  index("job_runs_job_started_idx").on(table.job, table.startedAt),
+]);
+
+export type JobRun = typeof jobRuns.$inferSelect;
+
+export const IMPORT_KINDS = ["core-blocks", "platform-epochs", "prices", "masternode-snapshots"] as const;
+export type ImportKind = typeof IMPORT_KINDS[number];
+
+export const IMPORT_FORMATS = ["csv", "ndjson", "json"] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export type ImportStatus = "queued" | "running" | "complete" | "error";
+
+// CSV/NDJSON and bundled-file imports with their progress; only the first row errors are kept
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  kind: varchar("kind", { length: 32 }).$type<ImportKind>().notNull(),
+  format: varchar("format", { length: 16 }).$type<ImportFormat>().notNull(),
+  source: text("source").notNull(),
+  instance: varchar("instance", { length: 64 }).notNull(),
+  status: varchar("status", { length: 16 }).$type<ImportStatus>().notNull(),
+  totalRows: integer("total_rows").notNull(),
+  processedRows: integer("processed_rows").notNull(),
+  inserted: integer("inserted").notNull(),
+  invalid: integer("invalid").notNull(),
+  errors: json("errors").$type<Array<{ row: number; message: string }>>().notNull(),
+  error: text("error"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+  finishedAt: bigint("finished_at", { mode: "number" }),
+});
+
+export type ImportJob = typeof importJobs.$inferSelect;
+
+export const coreReorgs = pgTable("core_reorgs", {
+  id: serial("id").primaryKey(),
+  detectedAt: bigint("detected_at", { mode: "number" }).notNull(),
+  forkHeight: integer("fork_height").notNull(),
+  depth: integer("depth").notNull(),
+  oldTipHeight: integer("old_tip_height").notNull(),
+  oldTipHash: varchar("old_tip_hash", { length: 128 }).notNull(),
+  newTipHeight: integer("new_tip_height").notNull(),
+  newTipHash: varchar("new_tip_hash", { length: 128 }).notNull(),
+});
+
+export type CoreReorg = typeof coreReorgs.$inferSelect;
+
+export const blockDiscrepancies = pgTable("block_discrepancies", {
+  id: serial("id").primaryKey(),
+  height: integer("height").notNull(),
+  detectedAt: bigint("detected_at", { mode: "number" }).notNull(),
+  primarySource: varchar("primary_source", { length: 32 }).notNull(),
+  secondarySource: varchar("secondary_source", { length: 32 }).notNull(),
+  fields: text("fields").notNull(),
+  primaryValues: text("primary_values").notNull(),
+  secondaryValues: text("secondary_values").notNull(),
+  resolvedAt: bigint("resolved_at", { mode: "number" }),
+  resolvedSource: varchar("resolved_source", { length: 32 }),
+});
+
+export type BlockDiscrepancy = typeof blockDiscrepancies.$inferSelect;
+
+export const superblockPayouts = pgTable("superblock_payouts", {
+  id: serial("id").primaryKey(),
+  height: integer("height").notNull(),
+  blockHash: varchar("block_hash", { length: 128 }).notNull(),
+  time: integer("time").notNull(),
+  vout: integer("vout").notNull(),
+  payee: varchar("payee", { length: 64 }).notNull(),
+  amount: real("amount").notNull(),
+  proposalHash: varchar("proposal_hash", { length: 64 }),
+}, (table) => [
+  uniqueIndex("superblock_payouts_block_vout_idx").on(table.blockHash, table.vout),
+]);
+
+export type SuperblockPayout = typeof superblockPayouts.$inferSelect;
+
+export const governanceProposals = pgTable("governance_proposals", {
+  hash: varchar("hash", { length: 64 }).primaryKey(),
+  name: text("name").notNull(),
+  url: text("url"),
+  paymentAddress: varchar("payment_address", { length: 64 }),
+  paymentAmount: real("payment_amount").notNull(),
+  startEpoch: bigint("start_epoch", { mode: "number" }),
+  endEpoch: bigint("end_epoch", { mode: "number" }),
+  createdAt: bigint("created_at", { mode: "number" }),
+  yesCount: integer("yes_count").notNull().default(0),
+  noCount: integer("no_count").notNull().default(0),
+  abstainCount: integer("abstain_count").notNull().default(0),
+  absoluteYesCount: integer("absolute_yes_count").notNull().default(0),
+  voterCount: integer("voter_count").notNull().default(0),
+  cachedFunding: boolean("cached_funding").notNull().default(false),
+  active: boolean("active").notNull().default(true),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+});
+
+export const governanceVoteSnapshots = pgTable("governance_vote_snapshots", {
+  id: serial("id").primaryKey(),
+  proposalHash: varchar("proposal_hash", { length: 64 }).notNull(),
+  takenAt: bigint("taken_at", { mode: "number" }).notNull(),
+  yesCount: integer("yes_count").notNull(),
+  noCount: integer("no_count").notNull(),
+  abstainCount: integer("abstain_count").notNull(),
+  absoluteYesCount: integer("absolute_yes_count").notNull(),
+}, (table) => [
+  index("governance_vote_snapshots_proposal_idx").on(table.proposalHash, table.takenAt),
+]);
+
+export type GovernanceProposal = typeof governanceProposals.$inferSelect;
+export type GovernanceVoteSnapshot = typeof governanceVoteSnapshots.$inferSelect;
+
+export const masternodeCountSnapshots = pgTable("masternode_count_snapshots", {
+  id: serial("id").primaryKey(),
+  takenAt: bigint("taken_at", { mode: "number" }).notNull(),
+  source: text("source").notNull(),
+  total: integer("total").notNull(),
+  enabled: integer("enabled").notNull(),
+  poseBanned: integer("pose_banned").notNull(),
+  evoTotal: integer("evo_total").notNull(),
+  evoEnabled: integer("evo_enabled").notNull(),
+  evoPoseBanned: integer("evo_pose_banned").notNull(),
+}, (table) => [
+  index("masternode_count_snapshots_taken_at_idx").on(table.takenAt),
+]);
+
+export type MasternodeCountSnapshot = typeof masternodeCountSnapshots.$inferSelect;
+export const insertMasternodeCountSnapshotSchema = createInsertSchema(masternodeCountSnapshots).omit({ id: true });
+export type InsertMasternodeCountSnapshot = z.infer<typeof insertMasternodeCountSnapshotSchema>;
+
+export const masternodePayments = pgTable("masternode_payments", {
+  id: serial("id").primaryKey(),
+  height: integer("height").notNull(),
+  blockHash: varchar("block_hash", { length: 64 }).notNull(),
+  time: bigint("time", { mode: "number" }).notNull(),
+  vout: integer("vout").notNull(),
+  payee: text("payee").notNull(),
+  amount: real("amount").notNull(),
+}, (table) => [
+  uniqueIndex("masternode_payments_block_vout_idx").on(table.blockHash, table.vout),
+  index("masternode_payments_payee_idx").on(table.payee, table.height),
+]);
+
+export type MasternodePayment = typeof masternodePayments.$inferSelect;
+
+// Dash special transaction types (DIP2 `type`), plus classic transactions split into CoinJoin mixing and the rest
+export const CORE_TX_TYPES = [
+  "classic",
+  "coinjoin",
+  "coinbase",
+  "pro-reg",
+  "pro-up-serv",
+  "pro-up-reg",
+  "pro-up-rev",
+  "quorum-commitment",
+  "mn-hard-fork",
+  "asset-lock",
+  "asset-unlock",
+] as const;
+export type CoreTxType = typeof CORE_TX_TYPES[number];
+
+// Filled only in deep ingestion mode (CORE_TX_INGEST=deep). fee is in DASH and feeRate in duffs per
+// byte; both are null when the node doesn't report the fee and for the coinbase.
+export const coreTransactions = pgTable("core_transactions", {
+  id: serial("id").primaryKey(),
+  txid: varchar("txid", { length: 64 }).notNull(),
+  blockHash: varchar("block_hash", { length: 64 }).notNull(),
+  height: integer("height").notNull(),
+  time: integer("time").notNull(),
+  txType: varchar("tx_type", { length: 24 }).notNull(),
+  size: integer("size").notNull(),
+  fee: real("fee"),
+  feeRate: real("fee_rate"),
+  instantSend: boolean("instant_send").notNull().default(false),
+}, (table) => [
+  uniqueIndex("core_transactions_block_txid_idx").on(table.blockHash, table.txid),
+  index("core_transactions_time_idx").on(table.time),
+]);
+
+export type CoreTransaction = typeof coreTransactions.$inferSelect;
+
+// Per-block transaction counts by type, recorded for every block fetched while Dash Core RPC is
+// available. amount is the DASH moved: credited to Platform for asset-lock, withdrawn for
+// asset-unlock, and the total output value for every other type.
+export const coreBlockTxTypes = pgTable("core_block_tx_types", {
+  id: serial("id").primaryKey(),
+  blockHash: varchar("block_hash", { length: 64 }).notNull(),
+  height: integer("height").notNull(),
+  time: integer("time").notNull(),
+  txType: varchar("tx_type", { length: 24 }).notNull(),
+  count: integer("count").notNull(),
+  amount: real("amount").notNull(),
+}, (table) => [
+  uniqueIndex("core_block_tx_types_block_type_idx").on(table.blockHash, table.txType),
+  index("core_block_tx_types_time_idx").on(table.time),
+]);
+
+export type CoreBlockTxType = typeof coreBlockTxTypes.$inferSelect;
+
+export const priceHistory = pgTable("price_history", {
+  time: bigint("time", { mode: "number" }).primaryKey(),
+  usd: real("usd").notNull(),
+  source: text("source").notNull(),
+});
+
+export type PricePoint = typeof priceHistory.$inferSelect;
+export const insertPricePointSchema = createInsertSchema(priceHistory);
+export type InsertPricePoint = z.infer<typeof insertPricePointSchema>;
+
+// Pre-aggregated core_block_fees; bucketStart is UTC-aligned unix seconds
+const coreFeeRollupColumns = () => ({
+  bucketStart: integer("bucket_start").primaryKey(),
+  totalFees: real("total_fees").notNull(),
+  reward: real("reward").notNull(),
+  txCount: integer("tx_count").notNull(),
+  blockCount: integer("block_count").notNull(),
+  minHeight: integer("min_height").notNull(),
+  maxHeight: integer("max_height").notNull(),
+});
+
+export const coreFeeRollupsHourly = pgTable("core_fee_rollups_hourly", coreFeeRollupColumns());
+export const coreFeeRollupsDaily = pgTable("core_fee_rollups_daily", coreFeeRollupColumns());
+
+export type CoreFeeRollup = typeof coreFeeRollupsHourly.$inferSelect;
+
+export const USER_ROLES = ["viewer", "admin"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
+  // scrypt hash as `hash.salt`, never the plain password
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -49,3 +305,25 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Bearer tokens for scripts and cron jobs; only the SHA-256 of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  lastUsedAt: bigint("last_used_at", { mode: "number" }),
+  revokedAt: bigint("revoked_at", { mode: "number" }),
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// Owned by connect-pg-simple; declared here so db:push creates it and leaves it alone
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { startOfZonedBucket, zoneOffsetMs } from "./timezone";
+
+const HOUR = 3_600_000;
+const at = (iso: string) => Date.parse(iso);
+
+function assertBucket(iso: string, bucket: "hour" | "day" | "month", timeZone: string, expected: string) {
+  assert.equal(new Date(startOfZonedBucket(at(iso), bucket, timeZone)).toISOString(), new Date(expected).toISOString(), `${bucket} of ${iso} in ${timeZone}`);
+}
+
+test("New York spring-forward day is 23 hours and skips the 2am hour", () => {
+  const zone = "America/New_York";
+  // 2024-03-10 02:00 EST jumps to 03:00 EDT at 07:00Z
+  assertBucket("2024-03-10T16:00:00Z", "day", zone, "2024-03-10T05:00:00Z");
+  assertBucket("2024-03-11T16:00:00Z", "day", zone, "2024-03-11T04:00:00Z");
+  assert.equal(startOfZonedBucket(at("2024-03-11T16:00:00Z"), "day", zone) - startOfZonedBucket(at("2024-03-10T16:00:00Z"), "day", zone), 23 * HOUR);
+
+  assertBucket("2024-03-10T06:59:59Z", "hour", zone, "2024-03-10T06:00:00Z");
+  assertBucket("2024-03-10T07:00:00Z", "hour", zone, "2024-03-10T07:00:00Z");
+  assertBucket("2024-03-10T07:30:00Z", "hour", zone, "2024-03-10T07:00:00Z");
+  assert.equal(zoneOffsetMs(at("2024-03-10T06:59:59Z"), zone), -5 * HOUR);
+  assert.equal(zoneOffsetMs(at("2024-03-10T07:00:00Z"), zone), -4 * HOUR);
+});
+
+test("New York fall-back day is 25 hours and keeps both 1am hours apart", () => {
+  const zone = "America/New_York";
+  // 2024-11-03 02:00 EDT falls back to 01:00 EST at 06:00Z
+  assertBucket("2024-11-03T16:00:00Z", "day", zone, "2024-11-03T04:00:00Z");
+  assertBucket("2024-11-04T16:00:00Z", "day", zone, "2024-11-04T05:00:00Z");
+  assert.equal(startOfZonedBucket(at("2024-11-04T16:00:00Z"), "day", zone) - startOfZonedBucket(at("2024-11-03T16:00:00Z"), "day", zone), 25 * HOUR);
+
+  assertBucket("2024-11-03T05:30:00Z", "hour", zone, "2024-11-03T05:00:00Z");
+  assertBucket("2024-11-03T06:30:00Z", "hour", zone, "2024-11-03T06:00:00Z");
+  assert.equal(zoneOffsetMs(at("2024-11-03T05:30:00Z"), zone), -4 * HOUR);
+  assert.equal(zoneOffsetMs(at("2024-11-03T06:30:00Z"), zone), -5 * HOUR);
+  assertBucket("2024-11-15T12:00:00Z", "month", zone, "2024-11-01T04:00:00Z");
+});
+
+test("Santiago days start at 01:00 when DST skips midnight", () => {
+  const zone = "America/Santiago";
+  // 2024-09-08 00:00 -04 jumps to 01:00 -03 at 04:00Z, so that day has no midnight
+  assertBucket("2024-09-07T12:00:00Z", "day", zone, "2024-09-07T04:00:00Z");
+  assertBucket("2024-09-08T12:00:00Z", "day", zone, "2024-09-08T04:00:00Z");
+  assertBucket("2024-09-08T04:00:00Z", "day", zone, "2024-09-08T04:00:00Z");
+  assertBucket("2024-09-08T03:59:59Z", "day", zone, "2024-09-07T04:00:00Z");
+  assertBucket("2024-09-09T12:00:00Z", "day", zone, "2024-09-09T03:00:00Z");
+  assertBucket("2024-09-08T04:30:00Z", "hour", zone, "2024-09-08T04:00:00Z");
+  // 2024-04-07 00:00 -03 falls back to 23:00 -04 on the 6th, which therefore lasts 25 hours
+  assertBucket("2024-04-06T12:00:00Z", "day", zone, "2024-04-06T03:00:00Z");
+  assertBucket("2024-04-07T03:30:00Z", "day", zone, "2024-04-06T03:00:00Z");
+  assertBucket("2024-04-07T12:00:00Z", "day", zone, "2024-04-07T04:00:00Z");
+});
+
+test("Lord Howe half-hour shifts start a new hour bucket at the shift", () => {
+  const zone = "Australia/Lord_Howe";
+  // 2024-10-06 02:00 +10:30 jumps to 02:30 +11 at 15:30Z
+  assertBucket("2024-10-05T15:15:00Z", "hour", zone, "2024-10-05T14:30:00Z");
+  assertBucket("2024-10-05T15:30:00Z", "hour", zone, "2024-10-05T15:30:00Z");
+  assertBucket("2024-10-05T15:45:00Z", "hour", zone, "2024-10-05T15:30:00Z");
+  assertBucket("2024-10-05T16:15:00Z", "hour", zone, "2024-10-05T16:00:00Z");
+  assertBucket("2024-10-06T12:00:00Z", "day", zone, "2024-10-05T13:30:00Z");
+  assertBucket("2024-10-07T12:00:00Z", "day", zone, "2024-10-06T13:00:00Z");
+  // 2024-04-07 02:00 +11 falls back to 01:30 +10:30 at 15:00Z; 01:30-02:00 happens twice
+  assertBucket("2024-04-06T14:40:00Z", "hour", zone, "2024-04-06T14:00:00Z");
+  assertBucket("2024-04-06T15:10:00Z", "hour", zone, "2024-04-06T15:00:00Z");
+  assertBucket("2024-04-06T15:40:00Z", "hour", zone, "2024-04-06T15:30:00Z");
+  assert.equal(zoneOffsetMs(at("2024-04-06T15:10:00Z"), zone), 10.5 * HOUR);
+});
+
+test("Kolkata buckets follow its fixed +05:30 offset", () => {
+  const zone = "Asia/Kolkata";
+  assert.equal(zoneOffsetMs(at("2024-01-15T00:00:00Z"), zone), 5.5 * HOUR);
+  assert.equal(zoneOffsetMs(at("2024-07-15T00:00:00Z"), zone), 5.5 * HOUR);
+  assertBucket("2024-10-05T20:00:00Z", "hour", zone, "2024-10-05T19:30:00Z");
+  assertBucket("2024-10-05T20:00:00Z", "day", zone, "2024-10-05T18:30:00Z");
+  assertBucket("2024-10-05T18:29:59Z", "day", zone, "2024-10-04T18:30:00Z");
+  assertBucket("2024-10-05T20:00:00Z", "month", zone, "2024-09-30T18:30:00Z");
+});
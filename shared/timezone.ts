@@ -0,0 +1,107 @@
+export type BucketUnit = "hour" | "day" | "month";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws a RangeError for zones the runtime doesn't know
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function wallClock(ms: number, timeZone: string): WallClock {
+  const fields: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(ms)) {
+    if (part.type !== "literal") fields[part.type] = parseInt(part.value);
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+// Offset from UTC in the zone at the given instant, positive east of Greenwich
+export function zoneOffsetMs(ms: number, timeZone: string): number {
+  const w = wallClock(ms, timeZone);
+  const wallAsUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return wallAsUtc - Math.floor(ms / 1000) * 1000;
+}
+
+// The instant a wall-clock time (given as if it were UTC) happens in the zone. A time repeated
+// when clocks go back resolves to its first occurrence; a time skipped when clocks go forward
+// resolves to the same wall time after the jump, so a skipped midnight becomes the day's first instant.
+function zonedTimeToUtc(wallAsUtc: number, timeZone: string): number {
+  const guess = wallAsUtc - zoneOffsetMs(wallAsUtc, timeZone);
+  const guessOffset = zoneOffsetMs(guess, timeZone);
+  const result = wallAsUtc - guessOffset;
+  if (zoneOffsetMs(result, timeZone) === guessOffset) return result;
+  return Math.max(result, guess);
+}
+
+// The first second at `to`'s offset, given that `from` is still at an earlier one
+function offsetChangeBetween(from: number, to: number, timeZone: string): number {
+  const offset = zoneOffsetMs(to, timeZone);
+  let lo = from;
+  let hi = to;
+  while (hi - lo > 1000) {
+    const mid = lo + Math.floor((hi - lo) / 2000) * 1000;
+    if (zoneOffsetMs(mid, timeZone) === offset) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+// Start of the hour, day or month containing `ms`, as observed in the zone. Hours are cut
+// at the zone's minute zero, so the repeated hour when clocks go back stays two buckets. A
+// half-hour shift (Lord Howe) happens mid-hour, and the bucket then starts at the shift.
+export function startOfZonedBucket(ms: number, bucket: BucketUnit, timeZone: string): number {
+  const w = wallClock(ms, timeZone);
+  switch (bucket) {
+    case "hour": {
+      const second = Math.floor(ms / 1000) * 1000;
+      const start = second - (w.minute * 60 + w.second) * 1000;
+      if (zoneOffsetMs(start, timeZone) === zoneOffsetMs(second, timeZone)) return start;
+      return offsetChangeBetween(start, second, timeZone);
+    }
+    case "day":
+      return zonedTimeToUtc(Date.UTC(w.year, w.month - 1, w.day), timeZone);
+    case "month":
+      return zonedTimeToUtc(Date.UTC(w.year, w.month - 1, 1), timeZone);
+  }
+}